@@ -0,0 +1,59 @@
+// src/config/config.test.ts
+
+describe("config", () => {
+  const original = process.env.SCHEDULE_CANCELLED_STATUSES;
+
+  afterEach(() => {
+    process.env.SCHEDULE_CANCELLED_STATUSES = original;
+  });
+
+  const loadConfig = () => {
+    let loaded: typeof import("./config") | undefined;
+    jest.isolateModules(() => {
+      loaded = require("./config");
+    });
+    return loaded!.config;
+  };
+
+  it("falha ao iniciar sem SCHEDULE_CANCELLED_STATUSES", () => {
+    delete process.env.SCHEDULE_CANCELLED_STATUSES;
+
+    expect(loadConfig).toThrow(/SCHEDULE_CANCELLED_STATUSES/);
+  });
+
+  it("converte a lista de status cancelados", () => {
+    process.env.SCHEDULE_CANCELLED_STATUSES = "3, 9";
+
+    expect(loadConfig().scheduleCancelledStatuses).toEqual([3, 9]);
+  });
+
+  it("usa apenas WhatsApp sem CHANNEL_PRIORITY", () => {
+    const channelPriority = process.env.CHANNEL_PRIORITY;
+    delete process.env.CHANNEL_PRIORITY;
+
+    try {
+      expect(loadConfig().channelPriority).toEqual(["whatsapp"]);
+    } finally {
+      if (channelPriority === undefined) delete process.env.CHANNEL_PRIORITY;
+      else process.env.CHANNEL_PRIORITY = channelPriority;
+    }
+  });
+
+  it("deixa a busca de profissionais desativada sem PARTNER_TABLE", () => {
+    const partnerTable = process.env.PARTNER_TABLE;
+    process.env.PARTNER_TABLE = "";
+
+    try {
+      expect(loadConfig().partnerTable).toBeUndefined();
+    } finally {
+      if (partnerTable === undefined) delete process.env.PARTNER_TABLE;
+      else process.env.PARTNER_TABLE = partnerTable;
+    }
+  });
+
+  it("rejeita valores não numéricos", () => {
+    process.env.SCHEDULE_CANCELLED_STATUSES = "cancelado";
+
+    expect(loadConfig).toThrow(/status numérico/);
+  });
+});
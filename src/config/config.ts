@@ -2,6 +2,7 @@
 // Configurações da aplicação com queue settings
 
 import { z } from "zod";
+import { hostname } from "os";
 
 const configSchema = z.object({
   // Server
@@ -21,14 +22,94 @@ const configSchema = z.object({
   // Evolution API
   evolutionApiUrl: z.string().url(),
   evolutionApiKey: z.string(),
+  whatsappNumberCheck: z
+    .string()
+    .default("true")
+    .transform((value) => value !== "false"), // verificar se o número tem WhatsApp antes de enviar
+  whatsappNumberCacheTtl: z.coerce.number().default(1440), // minutos de cache da verificação
+
+  // Canais de envio (ordem de tentativa; tenants e templates podem sobrescrever)
+  // Padrão só WhatsApp: e-mail/SMS entram apenas quando configurados
+  channelPriority: z
+    .string()
+    .default("whatsapp")
+    .transform((str) =>
+      str
+        .split(",")
+        .map((value) => value.trim())
+        .filter((value) => value !== "")
+    ),
+
+  // E-mail
+  smtpOverrideHost: z.string().optional(), // SMTP local para testes (ignora o SMTP da clínica)
+  smtpOverridePort: z.coerce.number().default(1025),
+
+  // SMS (gateway HTTP genérico)
+  smsGatewayUrl: z.string().url().optional(), // POST { to, message, sender }
+  smsGatewayToken: z.string().optional(), // enviado como Bearer
+  smsSender: z.string().optional(), // remetente/short code do gateway
+  smsGatewayTimeout: z.coerce.number().default(15000), // milissegundos
 
   // Webhook
   webhookBaseUrl: z.string().url(),
 
+  // Autenticação
+  adminApiKey: z.string().min(32).optional(), // chave administrativa (emite chaves de tenants)
+
   // Queue Settings
   queueProcessInterval: z.coerce.number().default(5), // minutos
   queueBatchSize: z.coerce.number().default(10), // mensagens por vez
+  queueTenantConcurrency: z.coerce.number().default(3), // tenants processados em paralelo
+  queueStore: z.enum(["mysql", "memory"]).default("mysql"), // memory = testes/demonstração
   queueDelayBetweenMessages: z.coerce.number().default(2000), // milissegundos
+  queueJitterMs: z.coerce.number().default(3000), // atraso aleatório extra entre mensagens (ms)
+  queueMessagesPerMinute: z.coerce.number().default(20), // padrão por sessão WhatsApp
+  queueRateLimitBurst: z.coerce.number().default(3), // mensagens seguidas antes de limitar
+  queueDailyCap: z.coerce.number().default(1000), // mensagens por dia por número (0 = sem limite)
+  queueMaxAttempts: z.coerce.number().default(5), // tentativas por item
+  queueRetryBaseDelay: z.coerce.number().default(60), // segundos (dobra a cada tentativa)
+  queueRetryMaxDelay: z.coerce.number().default(3600), // segundos
+  queueLeaseDuration: z.coerce.number().default(300), // segundos de posse de um item
+  queueWorkerId: z.string().default(`${hostname()}-${process.pid}`), // identifica a réplica
+  queueDedupeWindowHours: z.coerce.number().default(24), // horas em que um envio igual é considerado duplicado
+
+  // Reminder Settings
+  reminderScanInterval: z.coerce.number().default(15), // minutos
+  reminderLookaheadDays: z.coerce.number().default(3), // dias à frente
+  reminderBatchSize: z.coerce.number().default(100), // agendamentos por varredura
+  reminderDefaultDaysBefore: z.coerce.number().default(1), // dias antes da consulta
+  reminderDefaultTime: z.string().default("10:00"), // horário de envio (HH:MM)
+
+  // Send Window Settings
+  defaultTimezone: z.string().default("America/Sao_Paulo"), // fuso dos tenants sem configuração
+
+  // Schedule Settings
+  // Obrigatório: sem ele consultas canceladas continuariam recebendo lembretes
+  scheduleCancelledStatuses: z
+    .string({
+      required_error:
+        "SCHEDULE_CANCELLED_STATUSES é obrigatório (valores de of_schedules.sts que indicam cancelamento)",
+    })
+    .transform((str) =>
+      str
+        .split(",")
+        .map((value) => value.trim())
+        .filter((value) => value !== "")
+        .map(Number)
+    )
+    .refine(
+      (statuses) =>
+        statuses.length > 0 && statuses.every((sts) => Number.isInteger(sts)),
+      "SCHEDULE_CANCELLED_STATUSES deve listar ao menos um status numérico"
+    ), // valores de of_schedules.sts que indicam agendamento cancelado
+  partnerTable: z
+    .string()
+    .regex(/^\w+$/, "PARTNER_TABLE deve ser um nome de tabela")
+    .optional(), // tabela do profissional (of_schedules.partner); sem valor = {profissional} vazio
+  partnerNameColumn: z
+    .string()
+    .regex(/^\w+$/, "PARTNER_NAME_COLUMN deve ser um nome de coluna")
+    .default("partner_name"),
 });
 
 const env = {
@@ -49,14 +130,59 @@ const env = {
   // Evolution API
   evolutionApiUrl: process.env.EVOLUTION_API_URL,
   evolutionApiKey: process.env.EVOLUTION_API_KEY,
+  whatsappNumberCheck: process.env.WHATSAPP_NUMBER_CHECK,
+  whatsappNumberCacheTtl: process.env.WHATSAPP_NUMBER_CACHE_TTL,
+
+  // Canais de envio
+  channelPriority: process.env.CHANNEL_PRIORITY,
+
+  // E-mail
+  smtpOverrideHost: process.env.SMTP_OVERRIDE_HOST,
+  smtpOverridePort: process.env.SMTP_OVERRIDE_PORT,
+
+  // SMS
+  smsGatewayUrl: process.env.SMS_GATEWAY_URL || undefined,
+  smsGatewayToken: process.env.SMS_GATEWAY_TOKEN || undefined,
+  smsSender: process.env.SMS_SENDER || undefined,
+  smsGatewayTimeout: process.env.SMS_GATEWAY_TIMEOUT,
 
   // Webhook
   webhookBaseUrl: process.env.WEBHOOK_BASE_URL,
 
+  // Autenticação
+  adminApiKey: process.env.ADMIN_API_KEY || undefined,
+
   // Queue Settings
   queueProcessInterval: process.env.QUEUE_PROCESS_INTERVAL,
   queueBatchSize: process.env.QUEUE_BATCH_SIZE,
+  queueTenantConcurrency: process.env.QUEUE_TENANT_CONCURRENCY,
+  queueStore: process.env.QUEUE_STORE,
   queueDelayBetweenMessages: process.env.QUEUE_DELAY_BETWEEN_MESSAGES,
+  queueJitterMs: process.env.QUEUE_JITTER_MS,
+  queueMessagesPerMinute: process.env.QUEUE_MESSAGES_PER_MINUTE,
+  queueRateLimitBurst: process.env.QUEUE_RATE_LIMIT_BURST,
+  queueDailyCap: process.env.QUEUE_DAILY_CAP,
+  queueMaxAttempts: process.env.QUEUE_MAX_ATTEMPTS,
+  queueRetryBaseDelay: process.env.QUEUE_RETRY_BASE_DELAY,
+  queueRetryMaxDelay: process.env.QUEUE_RETRY_MAX_DELAY,
+  queueLeaseDuration: process.env.QUEUE_LEASE_DURATION,
+  queueWorkerId: process.env.QUEUE_WORKER_ID,
+  queueDedupeWindowHours: process.env.QUEUE_DEDUPE_WINDOW_HOURS,
+
+  // Reminder Settings
+  reminderScanInterval: process.env.REMINDER_SCAN_INTERVAL,
+  reminderLookaheadDays: process.env.REMINDER_LOOKAHEAD_DAYS,
+  reminderBatchSize: process.env.REMINDER_BATCH_SIZE,
+  reminderDefaultDaysBefore: process.env.REMINDER_DEFAULT_DAYS_BEFORE,
+  reminderDefaultTime: process.env.REMINDER_DEFAULT_TIME,
+
+  // Send Window Settings
+  defaultTimezone: process.env.DEFAULT_TIMEZONE,
+
+  // Schedule Settings
+  scheduleCancelledStatuses: process.env.SCHEDULE_CANCELLED_STATUSES || undefined,
+  partnerTable: process.env.PARTNER_TABLE || undefined,
+  partnerNameColumn: process.env.PARTNER_NAME_COLUMN,
 };
 
 export const config = configSchema.parse(env);
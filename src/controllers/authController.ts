@@ -0,0 +1,161 @@
+// src/controllers/authController.ts
+// Controller para gerenciamento de API Keys por tenant
+
+import { Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { apiKeyService } from "../services/apiKeyService";
+import { createAppError } from "../middlewares/errorHandler";
+import { logger } from "../utils/logger";
+
+// Schemas de validação
+const issueKeySchema = z.object({
+  tenantId: z.coerce
+    .number()
+    .int()
+    .positive("ID do tenant deve ser um número positivo"),
+  name: z.string().min(1).max(191).optional(),
+});
+
+const rotateKeySchema = z.object({
+  tenantId: z.coerce
+    .number()
+    .int()
+    .positive("ID do tenant deve ser um número positivo"),
+  keyId: z.string().uuid("ID da chave inválido"),
+});
+
+const keyParamsSchema = z.object({
+  tenantId: z.coerce
+    .number()
+    .int()
+    .positive("ID do tenant deve ser um número positivo"),
+  keyId: z.string().uuid("ID da chave inválido"),
+});
+
+const tenantParamsSchema = z.object({
+  tenantId: z.coerce
+    .number()
+    .int()
+    .positive("ID do tenant deve ser um número positivo"),
+});
+
+export class AuthController {
+  /**
+   * Emitir nova API Key
+   * POST /api/auth/keys
+   */
+  async issueKey(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { tenantId, name } = issueKeySchema.parse(req.body);
+
+      const issued = await apiKeyService.issueKey(tenantId, name);
+
+      res.status(201).json({
+        success: true,
+        message:
+          "API Key emitida com sucesso. Guarde o valor: ele não será exibido novamente.",
+        data: issued,
+      });
+    } catch (error) {
+      logger.error("Erro ao emitir API Key", error);
+      next(error);
+    }
+  }
+
+  /**
+   * Listar API Keys do tenant
+   * GET /api/auth/keys/:tenantId
+   */
+  async listKeys(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { tenantId } = tenantParamsSchema.parse(req.params);
+
+      const keys = await apiKeyService.listKeys(tenantId);
+
+      res.status(200).json({
+        success: true,
+        data: keys,
+      });
+    } catch (error) {
+      logger.error("Erro ao listar API Keys", error);
+      next(error);
+    }
+  }
+
+  /**
+   * Rotacionar API Key
+   * POST /api/auth/keys/rotate
+   */
+  async rotateKey(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { tenantId, keyId } = rotateKeySchema.parse(req.body);
+
+      const issued = await apiKeyService.rotateKey(tenantId, keyId);
+
+      if (!issued) {
+        throw createAppError(
+          "API Key não encontrada ou já revogada",
+          404,
+          "API_KEY_NOT_FOUND"
+        );
+      }
+
+      res.status(200).json({
+        success: true,
+        message:
+          "API Key rotacionada com sucesso. A chave anterior foi revogada.",
+        data: issued,
+      });
+    } catch (error) {
+      logger.error("Erro ao rotacionar API Key", error);
+      next(error);
+    }
+  }
+
+  /**
+   * Revogar API Key
+   * DELETE /api/auth/keys/:tenantId/:keyId
+   */
+  async revokeKey(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { tenantId, keyId } = keyParamsSchema.parse(req.params);
+
+      const revoked = await apiKeyService.revokeKey(tenantId, keyId);
+
+      if (!revoked) {
+        throw createAppError(
+          "API Key não encontrada ou já revogada",
+          404,
+          "API_KEY_NOT_FOUND"
+        );
+      }
+
+      res.status(200).json({
+        success: true,
+        message: "API Key revogada com sucesso",
+        data: { tenantId, keyId },
+      });
+    } catch (error) {
+      logger.error("Erro ao revogar API Key", error);
+      next(error);
+    }
+  }
+}
+
+export const authController = new AuthController();
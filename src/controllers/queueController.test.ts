@@ -0,0 +1,101 @@
+// src/controllers/queueController.test.ts
+
+import type { Request, Response } from "express";
+import { queueController } from "./queueController";
+import { queueService } from "../services/queueService";
+import { QueuePriority } from "../types/queue.types";
+import type { AuthContext } from "../types/auth.types";
+
+jest.mock("../config/database", () => ({ prisma: {} }));
+jest.mock("../services/queueService", () => ({
+  queueService: {
+    enqueueMessage: jest.fn(async () => ({ success: true })),
+    bulkEnqueue: jest.fn(async () => ({ requested: 1, enqueued: 1 })),
+  },
+}));
+
+const tenantAuth: AuthContext = { keyId: "key-1", tenantId: "1", isAdmin: false };
+const adminAuth: AuthContext = { keyId: null, tenantId: null, isAdmin: true };
+
+const buildRequest = (body: object, auth = tenantAuth) =>
+  ({ body, auth, get: () => undefined }) as unknown as Request;
+
+const buildResponse = () => {
+  const res = { status: jest.fn(), json: jest.fn() };
+  res.status.mockReturnValue(res);
+  return res as unknown as Response;
+};
+
+describe("QueueController - prioridade", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("rejeita prioridade transacional com chave de tenant", async () => {
+    const next = jest.fn();
+
+    await queueController.enqueue(
+      buildRequest({ scheduleId: 10, priority: QueuePriority.TRANSACTIONAL }),
+      buildResponse(),
+      next
+    );
+
+    expect(next.mock.calls[0][0]).toMatchObject({
+      statusCode: 403,
+      code: "PRIORITY_FORBIDDEN",
+    });
+    expect(queueService.enqueueMessage).not.toHaveBeenCalled();
+  });
+
+  it("rejeita prioridade transacional no envio em lote", async () => {
+    const next = jest.fn();
+
+    await queueController.bulkEnqueue(
+      buildRequest({
+        scheduleIds: [10],
+        priority: QueuePriority.TRANSACTIONAL,
+      }),
+      buildResponse(),
+      next
+    );
+
+    expect(next.mock.calls[0][0]).toMatchObject({ statusCode: 403 });
+    expect(queueService.bulkEnqueue).not.toHaveBeenCalled();
+  });
+
+  it("aceita prioridades de lembrete e campanha", async () => {
+    const next = jest.fn();
+
+    await queueController.enqueue(
+      buildRequest({ scheduleId: 10, priority: QueuePriority.CAMPAIGN }),
+      buildResponse(),
+      next
+    );
+
+    expect(next).not.toHaveBeenCalled();
+    expect(queueService.enqueueMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ priority: QueuePriority.CAMPAIGN })
+    );
+  });
+
+  it("permite prioridade transacional com a chave administrativa", async () => {
+    const next = jest.fn();
+
+    await queueController.enqueue(
+      buildRequest(
+        { scheduleId: 10, priority: QueuePriority.TRANSACTIONAL },
+        adminAuth
+      ),
+      buildResponse(),
+      next
+    );
+
+    expect(next).not.toHaveBeenCalled();
+    expect(queueService.enqueueMessage).toHaveBeenCalled();
+  });
+});
@@ -4,9 +4,14 @@
 import { Request, Response, NextFunction } from "express";
 import { z } from "zod";
 import { queueService } from "../services/queueService";
+import { reminderGenerator } from "../jobs/reminderGenerator";
+import { queueProcessor } from "../jobs/queueProcessor";
 import { createAppError } from "../middlewares/errorHandler";
+import { assertTenantAccess } from "../middlewares/apiKeyAuth";
+import { queueStore } from "../repositories/queueStore";
+import { queueDataStore } from "../repositories/queueDataStore";
 import { logger } from "../utils/logger";
-import { prisma } from "@/config/database";
+import { QueuePriority, QueueStatus } from "../types/queue.types";
 
 // Schemas de validação - CORRIGIDO
 const enqueueSchema = z.object({
@@ -16,8 +21,129 @@ const enqueueSchema = z.object({
     .positive("Schedule ID deve ser um número positivo"),
   userId: z.coerce.number().int().positive().optional().default(1),
   templateType: z.string().optional().default("confirmacao"),
+  sendAt: z.coerce.date().optional(),
+  priority: z.nativeEnum(QueuePriority).optional(),
 });
 
+const isoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Data deve estar no formato YYYY-MM-DD");
+
+const bulkEnqueueSchema = z
+  .object({
+    scheduleIds: z
+      .array(z.coerce.number().int().positive())
+      .min(1, "Informe ao menos um agendamento")
+      .max(500, "Máximo de 500 agendamentos por operação")
+      .optional(),
+    filter: z
+      .object({
+        tenantId: z.coerce.number().int().positive().optional(),
+        dateFrom: isoDate,
+        dateTo: isoDate,
+        partner: z.coerce.number().int().positive().optional(),
+        sts: z.array(z.coerce.number().int()).optional(),
+      })
+      .refine((filter) => filter.dateFrom <= filter.dateTo, {
+        message: "dateFrom deve ser anterior ou igual a dateTo",
+        path: ["dateTo"],
+      })
+      .optional(),
+    limit: z.coerce.number().int().min(1).max(500).optional().default(500),
+    userId: z.coerce.number().int().positive().optional().default(1),
+    templateType: z.string().optional().default("confirmacao"),
+    sendAt: z.coerce.date().optional(),
+    priority: z.nativeEnum(QueuePriority).optional(),
+  })
+  .refine((data) => !!data.scheduleIds !== !!data.filter, {
+    message: "Informe scheduleIds ou filter (apenas um)",
+  });
+
+const idempotencyKeySchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(128, "Idempotency-Key deve ter no máximo 128 caracteres")
+  .optional();
+
+const rescheduleSchema = z.object({
+  queueId: z.coerce
+    .number()
+    .int()
+    .positive("Queue ID deve ser um número positivo"),
+  sendAt: z.coerce.date().nullable(),
+});
+
+const queueItemParamsSchema = z.object({
+  queueId: z.coerce
+    .number()
+    .int()
+    .positive("Queue ID deve ser um número positivo"),
+});
+
+const listItemsSchema = z.object({
+  tenantId: z.coerce.number().int().positive().optional(),
+  status: z.nativeEnum(QueueStatus).optional(),
+  templateType: z.string().min(1).optional(),
+  scheduleId: z.coerce.number().int().positive().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  cursor: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(50),
+});
+
+const bulkActionSchema = z
+  .object({
+    action: z.enum(["cancel", "requeue", "reschedule"]),
+    queueIds: z
+      .array(z.coerce.number().int().positive())
+      .min(1, "Informe ao menos um item")
+      .max(500, "Máximo de 500 itens por operação"),
+    sendAt: z.coerce.date().nullable().optional(),
+  })
+  .refine((data) => data.action !== "reschedule" || data.sendAt !== undefined, {
+    message: "sendAt é obrigatório para reschedule (null = envio imediato)",
+    path: ["sendAt"],
+  });
+
+const deadLetterFilterSchema = z.object({
+  tenantId: z.coerce.number().int().positive().optional(),
+  errorCode: z.string().min(1).optional(),
+  templateType: z.string().min(1).optional(),
+  scheduleId: z.coerce.number().int().positive().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+const requeueSchema = z
+  .object({
+    queueIds: z
+      .array(z.coerce.number().int().positive())
+      .min(1, "Informe ao menos um item")
+      .max(500, "Máximo de 500 itens por operação")
+      .optional(),
+    filter: deadLetterFilterSchema.optional(),
+    limit: z.coerce.number().int().min(1).max(500).optional().default(500),
+  })
+  .refine((data) => !!data.queueIds !== !!data.filter, {
+    message: "Informe queueIds ou filter (apenas um)",
+  });
+
+const processorStartSchema = z.object({
+  intervalMinutes: z.coerce.number().int().min(1).max(1440).optional(),
+});
+
+const processorConfigSchema = z
+  .object({
+    intervalMinutes: z.coerce.number().int().min(1).max(1440).optional(),
+    batchSize: z.coerce.number().int().min(1).max(100).optional(),
+    concurrency: z.coerce.number().int().min(1).max(20).optional(),
+  })
+  .refine(
+    (data) => data.intervalMinutes || data.batchSize || data.concurrency,
+    { message: "Informe intervalMinutes, batchSize e/ou concurrency" }
+  );
+
 const processQueueSchema = z.object({
   limit: z.coerce.number().int().min(1).max(100).optional().default(10),
 });
@@ -29,6 +155,14 @@ const cancelSchema = z.object({
     .positive("Schedule ID deve ser um número positivo"),
 });
 
+const scheduleChangedSchema = z.object({
+  scheduleId: z.coerce
+    .number()
+    .int()
+    .positive("Schedule ID deve ser um número positivo"),
+  cancelled: z.boolean().optional().default(false),
+});
+
 const historySchema = z.object({
   scheduleId: z.coerce
     .number()
@@ -47,8 +181,16 @@ export class QueueController {
   ): Promise<void> {
     try {
       const data = enqueueSchema.parse(req.body);
+      this.assertPriorityAllowed(req, data.priority);
+
+      const idempotencyKey = idempotencyKeySchema.parse(
+        req.get("Idempotency-Key")
+      );
 
-      const result = await queueService.enqueueMessage(data);
+      const result = await queueService.enqueueMessage({
+        ...data,
+        idempotencyKey,
+      });
 
       res.status(200).json(result);
     } catch (error) {
@@ -57,6 +199,55 @@ export class QueueController {
     }
   }
 
+  /**
+   * Enfileira vários agendamentos (IDs ou filtro); envio pelo processador
+   */
+  async bulkEnqueue(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { scheduleIds, filter, limit, ...options } =
+        bulkEnqueueSchema.parse(req.body);
+      this.assertPriorityAllowed(req, options.priority);
+
+      // Chaves de tenant só enfileiram agendamentos próprios
+      const scopeOwnerId = req.auth?.isAdmin
+        ? undefined
+        : Number(req.auth?.tenantId);
+
+      let ids = scheduleIds ? [...new Set(scheduleIds)] : [];
+
+      if (filter) {
+        const { tenantId, ...scheduleFilters } = filter;
+
+        if (tenantId !== undefined) {
+          assertTenantAccess(req, tenantId);
+        }
+
+        ids = await queueDataStore.findScheduleIds(
+          { ...scheduleFilters, ownerId: tenantId ?? scopeOwnerId },
+          limit
+        );
+      }
+
+      const result = await queueService.bulkEnqueue(
+        { scheduleIds: ids, ...options },
+        scopeOwnerId
+      );
+
+      res.status(200).json({
+        success: true,
+        message: `${result.enqueued} de ${result.requested} agendamentos enfileirados`,
+        data: result,
+      });
+    } catch (error) {
+      logger.error("Erro ao enfileirar em lote", error);
+      next(error);
+    }
+  }
+
   /**
    * Processa fila de mensagens
    */
@@ -68,11 +259,21 @@ export class QueueController {
     try {
       const { limit } = processQueueSchema.parse(req.body);
 
-      await queueService.processQueue(limit);
+      // Pelo processor: não sobrepõe a execução do timer e entra nas estatísticas
+      if (queueProcessor.getStatus().processing) {
+        throw createAppError(
+          "Processamento da fila já em andamento",
+          409,
+          "QUEUE_PROCESSING"
+        );
+      }
+
+      const summary = await queueProcessor.processOnce(limit);
 
       res.status(200).json({
         success: true,
         message: `Fila processada com limite de ${limit} mensagens`,
+        data: summary,
       });
     } catch (error) {
       logger.error("Erro ao processar fila", error);
@@ -80,6 +281,326 @@ export class QueueController {
     }
   }
 
+  /**
+   * Lista itens da fila com filtros e paginação por cursor
+   */
+  async listItems(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { tenantId, ...filters } = listItemsSchema.parse(req.query);
+
+      // Chaves de tenant só enxergam a própria fila
+      const ownerId = req.auth?.isAdmin
+        ? tenantId
+        : Number(req.auth?.tenantId);
+
+      const page = await queueService.listQueueItems({ ...filters, ownerId });
+
+      res.status(200).json({
+        success: true,
+        data: page.items,
+        pagination: {
+          limit: filters.limit,
+          nextCursor: page.nextCursor,
+        },
+      });
+    } catch (error) {
+      logger.error("Erro ao listar itens da fila", error);
+      next(error);
+    }
+  }
+
+  /**
+   * Ação em lote: cancelar, devolver itens com erro ou reagendar
+   */
+  async bulkAction(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { action, queueIds, sendAt } = bulkActionSchema.parse(req.body);
+      const uniqueIds = [...new Set(queueIds)];
+
+      const queueItems = await queueStore.getByIds(uniqueIds);
+
+      if (queueItems.length !== uniqueIds.length) {
+        const found = new Set(queueItems.map((item) => Number(item.id)));
+        const missing = uniqueIds.filter((id) => !found.has(id));
+        throw createAppError(
+          `Itens não encontrados na fila: ${missing.join(", ")}`,
+          404,
+          "QUEUE_ITEM_NOT_FOUND"
+        );
+      }
+
+      queueItems.forEach((item) => assertTenantAccess(req, item.owner_id));
+
+      const result = await queueService.bulkQueueAction(
+        action,
+        uniqueIds,
+        sendAt ?? null
+      );
+
+      res.status(200).json({
+        success: true,
+        message: `${result.affected} de ${result.requested} itens atualizados`,
+        data: result,
+      });
+    } catch (error) {
+      logger.error("Erro na ação em lote da fila", error);
+      next(error);
+    }
+  }
+
+  /**
+   * Itens com falha definitiva agrupados por motivo
+   */
+  async getDeadLetter(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { tenantId, ...filters } = deadLetterFilterSchema.parse(req.query);
+
+      const groups = await queueService.getDeadLetterSummary({
+        ...filters,
+        ownerId: req.auth?.isAdmin ? tenantId : Number(req.auth?.tenantId),
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          total: groups.reduce((sum, group) => sum + group.total, 0),
+          groups,
+        },
+      });
+    } catch (error) {
+      logger.error("Erro ao buscar itens com falha", error);
+      next(error);
+    }
+  }
+
+  /**
+   * Devolve itens com erro para a fila (por IDs ou filtro)
+   */
+  async requeue(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { queueIds, filter, limit } = requeueSchema.parse(req.body);
+
+      let result;
+
+      if (queueIds) {
+        const uniqueIds = [...new Set(queueIds)];
+        const queueItems = await queueStore.getByIds(uniqueIds);
+
+        queueItems.forEach((item) => assertTenantAccess(req, item.owner_id));
+
+        result = await queueService.requeueQueueItems(
+          queueItems.map((item) => Number(item.id))
+        );
+        result.requested = uniqueIds.length;
+      } else {
+        const { tenantId, ...filters } = filter!;
+
+        if (tenantId !== undefined) {
+          assertTenantAccess(req, tenantId);
+        }
+
+        result = await queueService.requeueByFilter(
+          {
+            ...filters,
+            ownerId: req.auth?.isAdmin ? tenantId : Number(req.auth?.tenantId),
+          },
+          limit
+        );
+      }
+
+      res.status(200).json({
+        success: true,
+        message: `${result.requeued} itens devolvidos para a fila`,
+        data: result,
+      });
+    } catch (error) {
+      logger.error("Erro ao devolver itens para a fila", error);
+      next(error);
+    }
+  }
+
+  /**
+   * Processa (ou tenta novamente) um item da fila
+   */
+  async processItem(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { queueId } = queueItemParamsSchema.parse(req.params);
+
+      const queueItem = await queueStore.getById(queueId);
+
+      if (!queueItem) {
+        throw createAppError(
+          `Item ${queueId} não encontrado na fila`,
+          404,
+          "QUEUE_ITEM_NOT_FOUND"
+        );
+      }
+
+      assertTenantAccess(req, queueItem.owner_id);
+
+      if (queueItem.status !== "Aguardando" && queueItem.status !== "Erro") {
+        throw createAppError(
+          `Item ${queueId} não pode ser processado (status: ${queueItem.status})`,
+          409,
+          "QUEUE_ITEM_NOT_PROCESSABLE"
+        );
+      }
+
+      const result = await queueService.processQueueItemNow(queueId);
+
+      res.status(200).json({
+        success: result.status === "sent",
+        message:
+          result.status === "skipped"
+            ? "Item em processamento por outra instância"
+            : `Item processado (${result.status})`,
+        data: result,
+      });
+    } catch (error) {
+      logger.error("Erro ao processar item da fila", error);
+      next(error);
+    }
+  }
+
+  /**
+   * Estado do processador automático da fila
+   */
+  async getProcessorStatus(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      res.status(200).json({
+        success: true,
+        data: queueProcessor.getStatus(),
+      });
+    } catch (error) {
+      logger.error("Erro ao buscar estado do queue processor", error);
+      next(error);
+    }
+  }
+
+  /**
+   * Controla o processador automático (start, stop, pause, resume)
+   */
+  async controlProcessor(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const action = req.params.action;
+
+      switch (action) {
+        case "start": {
+          if (queueProcessor.isRunning()) {
+            throw createAppError(
+              "Queue processor já está rodando",
+              409,
+              "PROCESSOR_ALREADY_RUNNING"
+            );
+          }
+          const { intervalMinutes } = processorStartSchema.parse(req.body);
+          queueProcessor.start(intervalMinutes);
+          break;
+        }
+        case "stop":
+          queueProcessor.stop();
+          break;
+        case "pause":
+          queueProcessor.pause();
+          break;
+        case "resume":
+          queueProcessor.resume();
+          break;
+        default:
+          throw createAppError(
+            `Ação inválida: ${action}`,
+            400,
+            "INVALID_PROCESSOR_ACTION"
+          );
+      }
+
+      logger.info("Queue processor controlado via API", { action });
+
+      res.status(200).json({
+        success: true,
+        message: `Ação '${action}' aplicada ao queue processor`,
+        data: queueProcessor.getStatus(),
+      });
+    } catch (error) {
+      logger.error("Erro ao controlar queue processor", error);
+      next(error);
+    }
+  }
+
+  /**
+   * Altera intervalo e batch size do processador em tempo de execução
+   */
+  async configureProcessor(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const options = processorConfigSchema.parse(req.body);
+
+      queueProcessor.configure(options);
+
+      res.status(200).json({
+        success: true,
+        message: "Queue processor reconfigurado",
+        data: queueProcessor.getStatus(),
+      });
+    } catch (error) {
+      logger.error("Erro ao configurar queue processor", error);
+      next(error);
+    }
+  }
+
+  /**
+   * Gera lembretes de confirmação para os próximos agendamentos
+   */
+  async generateReminders(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const result = await reminderGenerator.generateOnce();
+
+      res.status(200).json({
+        success: true,
+        message: `${result.enqueued} lembretes enfileirados`,
+        data: result,
+      });
+    } catch (error) {
+      logger.error("Erro ao gerar lembretes", error);
+      next(error);
+    }
+  }
+
   /**
    * Cancela envio de mensagem
    */
@@ -99,6 +620,80 @@ export class QueueController {
     }
   }
 
+  /**
+   * Reagenda envio de item pendente
+   */
+  async reschedule(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { queueId, sendAt } = rescheduleSchema.parse(req.body);
+
+      const queueItem = await queueStore.getById(queueId);
+
+      if (!queueItem) {
+        throw createAppError(
+          `Item ${queueId} não encontrado na fila`,
+          404,
+          "QUEUE_ITEM_NOT_FOUND"
+        );
+      }
+
+      assertTenantAccess(req, queueItem.owner_id);
+
+      const rescheduled = await queueService.rescheduleQueueItem(
+        queueId,
+        sendAt
+      );
+
+      if (!rescheduled) {
+        throw createAppError(
+          `Item ${queueId} não está aguardando envio (status: ${queueItem.status})`,
+          409,
+          "QUEUE_ITEM_NOT_PENDING"
+        );
+      }
+
+      res.status(200).json({
+        success: true,
+        message: "Envio reagendado com sucesso",
+        data: { queueId, sendAt },
+      });
+    } catch (error) {
+      logger.error("Erro ao reagendar envio", error);
+      next(error);
+    }
+  }
+
+  /**
+   * Notificação de agendamento alterado/cancelado pelo sistema de agendamentos
+   */
+  async scheduleChanged(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { scheduleId, cancelled } = scheduleChangedSchema.parse(req.body);
+
+      const result = await queueService.handleScheduleChange(scheduleId, {
+        cancelled,
+        ownerId: req.auth?.isAdmin ? undefined : Number(req.auth?.tenantId),
+      });
+
+      res.status(200).json({
+        success: true,
+        message: `${result.items.length} itens pendentes reavaliados`,
+        data: result,
+      });
+    } catch (error) {
+      logger.error("Erro ao processar alteração de agendamento", error);
+      next(error);
+    }
+  }
+
   /**
    * Busca histórico de mensagens
    */
@@ -131,14 +726,10 @@ export class QueueController {
     next: NextFunction
   ): Promise<void> {
     try {
-      const stats = await prisma.$queryRaw<any[]>`
-        SELECT 
-          status,
-          COUNT(*) as total
-        FROM wa_queue
-        WHERE DATE(created_at) = CURDATE()
-        GROUP BY status
-      `;
+      const today = new Date();
+      today.setHours(0, 0, 0, 0);
+
+      const stats = await queueStore.countByStatusSince(today);
 
       res.status(200).json({
         success: true,
@@ -149,6 +740,24 @@ export class QueueController {
       next(error);
     }
   }
+
+  /**
+   * Prioridade transacional é reservada às respostas de conversa
+   * (apenas a chave administrativa pode usá-la pela API)
+   */
+  private assertPriorityAllowed(req: Request, priority?: QueuePriority): void {
+    if (
+      priority !== undefined &&
+      priority >= QueuePriority.TRANSACTIONAL &&
+      !req.auth?.isAdmin
+    ) {
+      throw createAppError(
+        "Prioridade transacional é reservada às respostas de conversa",
+        403,
+        "PRIORITY_FORBIDDEN"
+      );
+    }
+  }
 }
 
 export const queueController = new QueueController();
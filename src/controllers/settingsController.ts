@@ -0,0 +1,117 @@
+// src/controllers/settingsController.ts
+// Controller para configurações de envio por tenant
+
+import { Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { waSettingsRepository } from "../repositories/waSettingsRepository";
+import { createAppError } from "../middlewares/errorHandler";
+import { logger } from "../utils/logger";
+import { isValidTimezone } from "../utils/sendWindow";
+import { MessageChannelType } from "../types/queue.types";
+
+// Schemas de validação
+const tenantParamsSchema = z.object({
+  tenantId: z.coerce
+    .number()
+    .int()
+    .positive("ID do tenant deve ser um número positivo"),
+});
+
+const timeSchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Horário deve estar no formato HH:MM");
+
+const updateSettingsSchema = z
+  .object({
+    reminderEnabled: z.boolean(),
+    reminderDaysBefore: z.coerce.number().int().min(0).max(30),
+    reminderTime: timeSchema,
+    sendWindowEnabled: z.boolean(),
+    sendWindowDays: z
+      .array(z.number().int().min(0).max(6))
+      .min(1, "Informe ao menos um dia da semana")
+      .transform((days) => [...new Set(days)].sort()),
+    sendWindowStart: timeSchema,
+    sendWindowEnd: timeSchema,
+    timezone: z.string().refine(isValidTimezone, "Fuso horário inválido"),
+    // null = volta ao padrão do .env
+    messagesPerMinute: z.coerce.number().int().min(1).max(120).nullable(),
+    dailyCap: z.coerce.number().int().min(0).nullable(),
+    channelPriority: z
+      .array(z.nativeEnum(MessageChannelType))
+      .min(1, "Informe ao menos um canal")
+      .transform((channels) => [...new Set(channels)])
+      .nullable(),
+  })
+  .partial();
+
+export class SettingsController {
+  /**
+   * Obter configurações do tenant
+   * GET /api/settings/:tenantId
+   */
+  async getSettings(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { tenantId } = tenantParamsSchema.parse(req.params);
+
+      const settings = await waSettingsRepository.getByOwner(tenantId);
+
+      res.status(200).json({
+        success: true,
+        data: settings,
+      });
+    } catch (error) {
+      logger.error("Erro ao buscar configurações", error);
+      next(error);
+    }
+  }
+
+  /**
+   * Atualizar configurações do tenant
+   * PUT /api/settings/:tenantId
+   */
+  async updateSettings(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { tenantId } = tenantParamsSchema.parse(req.params);
+      const update = updateSettingsSchema.parse(req.body);
+
+      // Atualização parcial: validar a janela contra o que já está salvo
+      const current = await waSettingsRepository.getByOwner(tenantId);
+      const sendWindowStart = update.sendWindowStart ?? current.sendWindowStart;
+      const sendWindowEnd = update.sendWindowEnd ?? current.sendWindowEnd;
+
+      if (
+        sendWindowStart &&
+        sendWindowEnd &&
+        sendWindowStart >= sendWindowEnd
+      ) {
+        throw createAppError(
+          `Início da janela de envio (${sendWindowStart}) deve ser anterior ao fim (${sendWindowEnd})`,
+          400,
+          "INVALID_SEND_WINDOW"
+        );
+      }
+
+      const settings = await waSettingsRepository.upsert(tenantId, update);
+
+      res.status(200).json({
+        success: true,
+        message: "Configurações atualizadas com sucesso",
+        data: settings,
+      });
+    } catch (error) {
+      logger.error("Erro ao atualizar configurações", error);
+      next(error);
+    }
+  }
+}
+
+export const settingsController = new SettingsController();
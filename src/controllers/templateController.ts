@@ -0,0 +1,425 @@
+// src/controllers/templateController.ts
+// Controller para gerenciamento de templates de mensagem por tenant
+
+import { Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { waTemplateRepository } from "../repositories/waTemplateRepository";
+import { queueStore } from "../repositories/queueStore";
+import { templateService } from "../services/templateService";
+import { createAppError } from "../middlewares/errorHandler";
+import { logger } from "../utils/logger";
+import { MessageChannelType } from "../types/queue.types";
+import { TEMPLATE_TYPES } from "../types/template.types";
+
+// Schemas de validação
+const tenantParamsSchema = z.object({
+  tenantId: z.coerce
+    .number()
+    .int()
+    .positive("ID do tenant deve ser um número positivo"),
+});
+
+const templateParamsSchema = tenantParamsSchema.extend({
+  templateId: z.coerce
+    .number()
+    .int()
+    .positive("ID do template deve ser um número positivo"),
+});
+
+const templateTypeSchema = z.enum(TEMPLATE_TYPES, {
+  errorMap: () => ({
+    message: `Tipo deve ser um de: ${TEMPLATE_TYPES.join(", ")}`,
+  }),
+});
+
+const listTemplatesSchema = z.object({
+  type: templateTypeSchema.optional(),
+  active: z
+    .enum(["true", "false"])
+    .transform((value) => value === "true")
+    .optional(),
+});
+
+const contentSchema = z
+  .string()
+  .trim()
+  .min(1, "Conteúdo do template é obrigatório")
+  .max(4096, "Conteúdo do template deve ter no máximo 4096 caracteres");
+
+// null = usar a prioridade de canais do tenant
+const channelsSchema = z
+  .array(z.nativeEnum(MessageChannelType))
+  .min(1, "Informe ao menos um canal")
+  .transform((channels) => [...new Set(channels)].join(","))
+  .nullable();
+
+const createTemplateSchema = z.object({
+  type: templateTypeSchema,
+  content: contentSchema,
+  active: z.boolean().default(true),
+  channels: channelsSchema.default(null),
+});
+
+const updateTemplateSchema = z
+  .object({
+    type: templateTypeSchema,
+    content: contentSchema,
+    channels: channelsSchema,
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "Informe ao menos um campo para atualizar",
+  });
+
+const previewTemplateSchema = z
+  .object({
+    tenantId: z.coerce
+      .number()
+      .int()
+      .positive("ID do tenant deve ser um número positivo"),
+    templateId: z.coerce.number().int().positive().optional(),
+    content: contentSchema.optional(),
+    scheduleId: z.coerce.number().int().positive().optional(),
+    sample: z
+      .object({
+        patientName: z.string().trim().min(1),
+        birthDate: z.coerce.date(),
+        parentName: z.string(),
+        dates: z.coerce.date(),
+        times: z
+          .string()
+          .regex(
+            /^([01]\d|2[0-3]):?[0-5]\d$/,
+            "Horário deve estar no formato HH:MM"
+          ),
+        procedures: z.string(),
+        price: z.string(),
+        professional: z.string(),
+        sedation: z.boolean(),
+        surgery: z.boolean(),
+        laboratory: z.boolean(),
+      })
+      .partial()
+      .optional(),
+  })
+  .refine(
+    (data) => (data.templateId === undefined) !== (data.content === undefined),
+    {
+      message: "Informe templateId ou content (apenas um)",
+      path: ["templateId"],
+    }
+  )
+  .refine((data) => !(data.scheduleId && data.sample), {
+    message: "Informe scheduleId ou sample (apenas um)",
+    path: ["sample"],
+  });
+
+export class TemplateController {
+  /**
+   * Listar templates do tenant
+   * GET /api/templates/:tenantId
+   */
+  async listTemplates(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { tenantId } = tenantParamsSchema.parse(req.params);
+      const filters = listTemplatesSchema.parse(req.query);
+
+      const [templates, activeTemplates] = await Promise.all([
+        waTemplateRepository.list(tenantId, filters),
+        waTemplateRepository.list(tenantId, { active: true }),
+      ]);
+
+      // Tipos usados pelo sistema que ficariam sem mensagem
+      const missingTypes = TEMPLATE_TYPES.filter(
+        (type) => !activeTemplates.some((template) => template.type === type)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: templates,
+        missingTypes,
+      });
+    } catch (error) {
+      logger.error("Erro ao listar templates", error);
+      next(error);
+    }
+  }
+
+  /**
+   * Obter template
+   * GET /api/templates/:tenantId/:templateId
+   */
+  async getTemplate(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { tenantId, templateId } = templateParamsSchema.parse(req.params);
+
+      const template = await this.findTemplate(tenantId, templateId);
+
+      res.status(200).json({
+        success: true,
+        data: template,
+      });
+    } catch (error) {
+      logger.error("Erro ao buscar template", error);
+      next(error);
+    }
+  }
+
+  /**
+   * Criar template
+   * POST /api/templates/:tenantId
+   */
+  async createTemplate(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { tenantId } = tenantParamsSchema.parse(req.params);
+      const data = createTemplateSchema.parse(req.body);
+
+      const templateId = await waTemplateRepository.create(tenantId, data);
+
+      if (templateId === null) {
+        throw this.activeTypeConflict(data.type);
+      }
+
+      const template = await waTemplateRepository.getById(tenantId, templateId);
+
+      res.status(201).json({
+        success: true,
+        message: "Template criado com sucesso",
+        data: template,
+      });
+    } catch (error) {
+      logger.error("Erro ao criar template", error);
+      next(error);
+    }
+  }
+
+  /**
+   * Atualizar template
+   * PUT /api/templates/:tenantId/:templateId
+   */
+  async updateTemplate(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { tenantId, templateId } = templateParamsSchema.parse(req.params);
+      const update = updateTemplateSchema.parse(req.body);
+
+      await this.findTemplate(tenantId, templateId);
+
+      const updated = await waTemplateRepository.update(
+        tenantId,
+        templateId,
+        update
+      );
+
+      if (!updated) {
+        throw this.activeTypeConflict(update.type!);
+      }
+
+      const template = await waTemplateRepository.getById(tenantId, templateId);
+
+      res.status(200).json({
+        success: true,
+        message: "Template atualizado com sucesso",
+        data: template,
+      });
+    } catch (error) {
+      logger.error("Erro ao atualizar template", error);
+      next(error);
+    }
+  }
+
+  /**
+   * Ativar template
+   * POST /api/templates/:tenantId/:templateId/activate
+   */
+  async activateTemplate(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { tenantId, templateId } = templateParamsSchema.parse(req.params);
+
+      const template = await this.findTemplate(tenantId, templateId);
+
+      if (
+        !template.active &&
+        !(await waTemplateRepository.activate(tenantId, templateId))
+      ) {
+        throw this.activeTypeConflict(template.type);
+      }
+
+      res.status(200).json({
+        success: true,
+        message: "Template ativado com sucesso",
+        data: { ...template, active: true },
+      });
+    } catch (error) {
+      logger.error("Erro ao ativar template", error);
+      next(error);
+    }
+  }
+
+  /**
+   * Desativar template
+   * POST /api/templates/:tenantId/:templateId/deactivate
+   */
+  async deactivateTemplate(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { tenantId, templateId } = templateParamsSchema.parse(req.params);
+
+      const template = await this.findTemplate(tenantId, templateId);
+
+      if (template.active) {
+        await waTemplateRepository.setActive(templateId, false);
+      }
+
+      res.status(200).json({
+        success: true,
+        message: "Template desativado com sucesso",
+        data: { ...template, active: false },
+      });
+    } catch (error) {
+      logger.error("Erro ao desativar template", error);
+      next(error);
+    }
+  }
+
+  /**
+   * Remover template
+   * DELETE /api/templates/:tenantId/:templateId
+   */
+  async deleteTemplate(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { tenantId, templateId } = templateParamsSchema.parse(req.params);
+
+      await this.findTemplate(tenantId, templateId);
+
+      // Itens pendentes são renderizados com o template no envio
+      const pending = await queueStore.countPendingByTemplate(templateId);
+
+      if (pending > 0) {
+        throw createAppError(
+          `Template possui ${pending} envio(s) aguardando na fila. ` +
+            `Desative o template ou cancele os envios antes de remover.`,
+          409,
+          "TEMPLATE_IN_USE"
+        );
+      }
+
+      await waTemplateRepository.delete(templateId);
+
+      res.status(200).json({
+        success: true,
+        message: "Template removido com sucesso",
+      });
+    } catch (error) {
+      logger.error("Erro ao remover template", error);
+      next(error);
+    }
+  }
+
+  /**
+   * Pré-visualizar template renderizado
+   * POST /api/templates/preview
+   */
+  async previewTemplate(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { tenantId, templateId, content, scheduleId, sample } =
+        previewTemplateSchema.parse(req.body);
+
+      const template = templateId
+        ? await this.findTemplate(tenantId, templateId)
+        : null;
+
+      let source;
+      if (scheduleId) {
+        source = await templateService.getScheduleSource(scheduleId);
+
+        if (!source || source.owner !== tenantId) {
+          throw createAppError(
+            `Agendamento ${scheduleId} não encontrado`,
+            404,
+            "SCHEDULE_NOT_FOUND"
+          );
+        }
+      } else {
+        source = templateService.buildSampleSource(sample);
+      }
+
+      const preview = await templateService.preview(
+        tenantId,
+        template?.content ?? content!,
+        source,
+        scheduleId ? "schedule" : "sample",
+        template?.channels ?? null
+      );
+
+      res.status(200).json({
+        success: true,
+        data: preview,
+      });
+    } catch (error) {
+      logger.error("Erro ao pré-visualizar template", error);
+      next(error);
+    }
+  }
+
+  /**
+   * Busca template do tenant ou lança 404
+   */
+  private async findTemplate(tenantId: number, templateId: number) {
+    const template = await waTemplateRepository.getById(tenantId, templateId);
+
+    if (!template) {
+      throw createAppError(
+        `Template ${templateId} não encontrado`,
+        404,
+        "TEMPLATE_NOT_FOUND"
+      );
+    }
+
+    return template;
+  }
+
+  /**
+   * Um tenant só pode ter um template ativo por tipo
+   * (verificado pelo repository dentro da transação)
+   */
+  private activeTypeConflict(type: string) {
+    return createAppError(
+      `Já existe um template ativo do tipo '${type}'. Desative-o antes de ativar outro.`,
+      409,
+      "TEMPLATE_TYPE_ACTIVE"
+    );
+  }
+}
+
+export const templateController = new TemplateController();
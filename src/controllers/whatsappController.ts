@@ -3,6 +3,7 @@
 
 import { Request, Response, NextFunction } from "express";
 import { whatsappService } from "../services/whatsappService";
+import { webhookSecurityService } from "../services/webhookSecurityService";
 import { createAppError } from "../middlewares/errorHandler";
 import { logger } from "../utils/logger";
 import {
@@ -264,6 +265,7 @@ export class WhatsAppController {
         data: {
           tenantId,
           webhook: webhookConfig,
+          rejections: webhookSecurityService.getRejectionStats(tenantId),
           timestamp: new Date().toISOString(),
         },
       });
@@ -368,7 +370,11 @@ export class WhatsAppController {
         instance: req.body?.instance,
         messageType: req.body?.data?.messageType,
         hasMessage: !!req.body?.data?.message,
-        fullPayload: JSON.stringify(req.body, null, 2),
+        fullPayload: JSON.stringify(
+          { ...req.body, apikey: req.body?.apikey ? "***" : undefined },
+          null,
+          2
+        ),
       });
 
       // Validar tenantId
@@ -382,14 +388,29 @@ export class WhatsAppController {
       // Validar dados do webhook - USANDO SCHEMA CORRETO
       const webhookData = evolutionWebhookSchema.parse(req.body);
 
-      // Extrair o nome da instância para validar
-      const expectedInstanceName = `tenant_${tenantId}`;
-      if (webhookData.instance !== expectedInstanceName) {
-        logger.warn("Nome da instância não confere", {
-          expected: expectedInstanceName,
-          received: webhookData.instance,
-          tenantId,
-        });
+      // Verificar autenticidade (instância + segredo da URL ou apikey)
+      const secret =
+        typeof req.query.secret === "string" ? req.query.secret : undefined;
+      const rejection = await webhookSecurityService.verify(
+        tenantId,
+        webhookData,
+        secret
+      );
+
+      if (rejection === "instance_mismatch") {
+        throw createAppError(
+          "Instância do webhook não corresponde ao tenant",
+          403,
+          "WEBHOOK_INSTANCE_MISMATCH"
+        );
+      }
+
+      if (rejection) {
+        throw createAppError(
+          "Webhook não autorizado",
+          401,
+          "WEBHOOK_UNAUTHORIZED"
+        );
       }
 
       // Processar webhook
@@ -415,7 +436,7 @@ export class WhatsAppController {
       logger.error("Controller: Erro no webhook Evolution", error, {
         tenantId: req.params.tenantId,
         event: req.body?.event,
-        body: req.body,
+        instance: req.body?.instance,
       });
       next(error);
     }
@@ -6,6 +6,7 @@ import { app } from "./app";
 import { config } from "./config/config";
 import { testDatabaseConnection, disconnectDatabase } from "./config/database";
 import { queueProcessor } from "./jobs/queueProcessor";
+import { reminderGenerator } from "./jobs/reminderGenerator";
 import { logger } from "./utils/logger";
 
 /**
@@ -27,16 +28,31 @@ async function startServer() {
     // Iniciar processador de fila em produção
     if (config.nodeEnv === "production") {
       try {
-        queueProcessor.start(5); // Processar a cada 5 minutos
-        console.log("📬 Queue processor iniciado (intervalo: 5 min)");
+        queueProcessor.start();
+        console.log(
+          `📬 Queue processor iniciado (intervalo: ${config.queueProcessInterval} min)`
+        );
       } catch (error) {
         console.error("⚠️ Erro ao iniciar queue processor:", error);
         // Não falhar a aplicação se o queue processor falhar
         logger.error("Queue processor falhou ao iniciar", error);
       }
+
+      try {
+        reminderGenerator.start();
+        console.log(
+          `⏰ Reminder generator iniciado (intervalo: ${config.reminderScanInterval} min)`
+        );
+      } catch (error) {
+        console.error("⚠️ Erro ao iniciar reminder generator:", error);
+        logger.error("Reminder generator falhou ao iniciar", error);
+      }
     } else {
       console.log("📬 Queue processor desativado (modo desenvolvimento)");
       console.log("   Use POST /api/queue/process para processar manualmente");
+      console.log(
+        "   Use POST /api/queue/reminders/generate para gerar lembretes"
+      );
     }
 
     // Iniciar servidor
@@ -77,11 +93,10 @@ async function gracefulShutdown(signal: string) {
   console.log(`\n⏳ Recebido sinal ${signal}, iniciando parada graciosa...`);
 
   try {
-    // Parar processador de fila se estiver rodando
-    if (config.nodeEnv === "production") {
-      console.log("📬 Parando queue processor...");
-      queueProcessor.stop();
-    }
+    // Parar processador de fila se estiver rodando (pode ter sido iniciado via API)
+    console.log("📬 Parando queue processor...");
+    queueProcessor.stop();
+    reminderGenerator.stop();
 
     // Desconectar do banco de dados
     await disconnectDatabase();
@@ -105,6 +120,7 @@ process.on("uncaughtException", (error) => {
   // Tentar parar o queue processor antes de sair
   try {
     queueProcessor.stop();
+    reminderGenerator.stop();
   } catch (e) {
     // Ignorar erros ao parar o queue processor
   }
@@ -119,6 +135,7 @@ process.on("unhandledRejection", (reason, promise) => {
   // Tentar parar o queue processor antes de sair
   try {
     queueProcessor.stop();
+    reminderGenerator.stop();
   } catch (e) {
     // Ignorar erros ao parar o queue processor
   }
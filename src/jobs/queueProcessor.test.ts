@@ -0,0 +1,62 @@
+// src/jobs/queueProcessor.test.ts
+
+import { QueueProcessor } from "./queueProcessor";
+import { queueService } from "../services/queueService";
+import type { QueueRunSummary } from "../types/queue.types";
+
+jest.mock("../config/database", () => ({ prisma: {} }));
+jest.mock("../services/queueService", () => ({
+  queueService: { processQueue: jest.fn() },
+}));
+
+const processQueue = queueService.processQueue as jest.Mock;
+
+const summary: QueueRunSummary = {
+  selected: 10,
+  sent: 4,
+  retryScheduled: 2,
+  failed: 1,
+  held: 1,
+  cancelled: 1,
+  skipped: 1,
+};
+
+describe("QueueProcessor.processOnce", () => {
+  beforeEach(() => {
+    processQueue.mockReset();
+  });
+
+  it("conta apenas itens processados e enviados", async () => {
+    processQueue.mockResolvedValue(summary);
+    const processor = new QueueProcessor();
+
+    await expect(processor.processOnce(10)).resolves.toEqual(summary);
+
+    const status = processor.getStatus();
+    expect(status.totalRuns).toBe(1);
+    expect(status.totalProcessed).toBe(7);
+    expect(status.totalSent).toBe(4);
+    expect(status.lastRunSummary).toEqual(summary);
+  });
+
+  it("recusa execução manual sobreposta", async () => {
+    let finish: (value: QueueRunSummary) => void = () => undefined;
+    processQueue.mockReturnValue(
+      new Promise<QueueRunSummary>((resolve) => {
+        finish = resolve;
+      })
+    );
+    const processor = new QueueProcessor();
+
+    const first = processor.processOnce(10);
+    expect(processor.getStatus().processing).toBe(true);
+    await expect(processor.processOnce(10)).rejects.toThrow(
+      "Processamento já em andamento"
+    );
+
+    finish(summary);
+    await first;
+    expect(processQueue).toHaveBeenCalledTimes(1);
+    expect(processor.getStatus().processing).toBe(false);
+  });
+});
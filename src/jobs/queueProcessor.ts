@@ -4,10 +4,30 @@
 import { queueService } from "../services/queueService";
 import { logger } from "../utils/logger";
 import { config } from "../config/config";
+import type {
+  QueueProcessorStatus,
+  QueueRunSummary,
+} from "../types/queue.types";
 
 export class QueueProcessor {
   private intervalId: NodeJS.Timeout | null = null;
+  // Evita execuções sobrepostas nesta instância; entre réplicas
+  // a exclusão é garantida pelo lease em wa_queue (locked_by/locked_until)
   private isProcessing: boolean = false;
+  private isPaused: boolean = false;
+  private intervalMinutes: number = config.queueProcessInterval;
+  private batchSize: number = config.queueBatchSize;
+  private concurrency: number = config.queueTenantConcurrency;
+
+  // Estatísticas de execução
+  private startedAt: Date | null = null;
+  private lastRunAt: Date | null = null;
+  private lastRunDurationMs: number | null = null;
+  private lastRunSummary: QueueRunSummary | null = null;
+  private lastRunError: string | null = null;
+  private totalRuns: number = 0;
+  private totalProcessed: number = 0;
+  private totalSent: number = 0;
 
   /**
    * Inicia o processamento automático da fila
@@ -18,14 +38,23 @@ export class QueueProcessor {
       return;
     }
 
-    const interval = intervalMinutes || config.queueProcessInterval;
-    const intervalMs = interval * 60 * 1000;
+    if (intervalMinutes) {
+      this.intervalMinutes = intervalMinutes;
+    }
+
+    const intervalMs = this.intervalMinutes * 60 * 1000;
 
     logger.info(
-      `Iniciando queue processor com intervalo de ${interval} minutos`
+      `Iniciando queue processor com intervalo de ${this.intervalMinutes} minutos`
     );
-    logger.info(`Batch size: ${config.queueBatchSize} mensagens`);
-    logger.info(`Delay entre mensagens: ${config.queueDelayBetweenMessages}ms`);
+    logger.info(`Batch size: ${this.batchSize} mensagens`);
+    logger.info(`Tenants em paralelo: ${this.concurrency}`);
+    logger.info(
+      `Delay entre mensagens: ${config.queueDelayBetweenMessages}ms (+ até ${config.queueJitterMs}ms de jitter)`
+    );
+
+    this.isPaused = false;
+    this.startedAt = new Date();
 
     // Processar imediatamente na primeira vez
     this.processQueue();
@@ -43,28 +72,145 @@ export class QueueProcessor {
     if (this.intervalId) {
       clearInterval(this.intervalId);
       this.intervalId = null;
+      this.startedAt = null;
+      this.isPaused = false;
       logger.info("Queue processor parado");
     }
   }
 
+  /**
+   * Pausa o processamento (o intervalo continua ativo, mas as execuções são puladas)
+   */
+  pause(): void {
+    if (!this.isPaused) {
+      this.isPaused = true;
+      logger.info("Queue processor pausado");
+    }
+  }
+
+  /**
+   * Retoma o processamento pausado
+   */
+  resume(): void {
+    if (this.isPaused) {
+      this.isPaused = false;
+      logger.info("Queue processor retomado");
+    }
+  }
+
+  /**
+   * Altera intervalo, batch size e/ou concorrência em tempo de execução
+   * Um novo intervalo reinicia o timer se o processor estiver rodando.
+   */
+  configure(options: {
+    intervalMinutes?: number;
+    batchSize?: number;
+    concurrency?: number;
+  }): void {
+    if (options.batchSize) {
+      this.batchSize = options.batchSize;
+    }
+
+    if (options.concurrency) {
+      this.concurrency = options.concurrency;
+    }
+
+    if (
+      options.intervalMinutes &&
+      options.intervalMinutes !== this.intervalMinutes
+    ) {
+      this.intervalMinutes = options.intervalMinutes;
+
+      if (this.intervalId) {
+        clearInterval(this.intervalId);
+        this.intervalId = setInterval(() => {
+          this.processQueue();
+        }, this.intervalMinutes * 60 * 1000);
+      }
+    }
+
+    logger.info("Queue processor reconfigurado", {
+      intervalMinutes: this.intervalMinutes,
+      batchSize: this.batchSize,
+      concurrency: this.concurrency,
+    });
+  }
+
+  /**
+   * Estado atual e estatísticas da última execução
+   */
+  getStatus(): QueueProcessorStatus {
+    return {
+      running: this.isRunning(),
+      paused: this.isPaused,
+      processing: this.isProcessing,
+      intervalMinutes: this.intervalMinutes,
+      batchSize: this.batchSize,
+      concurrency: this.concurrency,
+      startedAt: this.startedAt,
+      lastRunAt: this.lastRunAt,
+      lastRunDurationMs: this.lastRunDurationMs,
+      lastRunSummary: this.lastRunSummary,
+      lastRunError: this.lastRunError,
+      totalRuns: this.totalRuns,
+      totalProcessed: this.totalProcessed,
+      totalSent: this.totalSent,
+    };
+  }
+
   /**
    * Processa a fila
    */
   private async processQueue(): Promise<void> {
+    if (this.isPaused) {
+      logger.info("Queue processor pausado, pulando...");
+      return;
+    }
+
     if (this.isProcessing) {
       logger.info("Processamento já em andamento, pulando...");
       return;
     }
 
-    this.isProcessing = true;
-
     try {
       logger.info("Iniciando processamento da fila");
-      await queueService.processQueue(config.queueBatchSize);
+      await this.run(this.batchSize);
       logger.info("Processamento da fila concluído");
     } catch (error) {
       logger.error("Erro no processamento da fila", error);
+    }
+  }
+
+  /**
+   * Executa o processamento registrando as estatísticas
+   */
+  private async run(limit: number): Promise<QueueRunSummary> {
+    this.isProcessing = true;
+    const startedAt = Date.now();
+    this.lastRunAt = new Date(startedAt);
+
+    try {
+      const summary = await queueService.processQueue(
+        limit,
+        this.concurrency
+      );
+
+      this.lastRunSummary = summary;
+      this.lastRunError = null;
+      // Itens segurados, cancelados ou pulados não contam como processados
+      this.totalProcessed +=
+        summary.sent + summary.retryScheduled + summary.failed;
+      this.totalSent += summary.sent;
+
+      return summary;
+    } catch (error) {
+      this.lastRunSummary = null;
+      this.lastRunError =
+        error instanceof Error ? error.message : String(error);
+      throw error;
     } finally {
+      this.lastRunDurationMs = Date.now() - startedAt;
+      this.totalRuns++;
       this.isProcessing = false;
     }
   }
@@ -77,19 +223,15 @@ export class QueueProcessor {
   }
 
   /**
-   * Processa uma vez manualmente
+   * Processa uma vez manualmente (mesma proteção contra execuções
+   * sobrepostas e mesmas estatísticas do timer)
    */
-  async processOnce(limit?: number): Promise<void> {
+  async processOnce(limit?: number): Promise<QueueRunSummary> {
     if (this.isProcessing) {
       throw new Error("Processamento já em andamento");
     }
 
-    this.isProcessing = true;
-    try {
-      await queueService.processQueue(limit || config.queueBatchSize);
-    } finally {
-      this.isProcessing = false;
-    }
+    return this.run(limit || this.batchSize);
   }
 }
 
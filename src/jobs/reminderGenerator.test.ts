@@ -0,0 +1,82 @@
+// src/jobs/reminderGenerator.test.ts
+
+import { ReminderGenerator } from "./reminderGenerator";
+import { prisma } from "../config/database";
+import { config } from "../config/config";
+import { queueService } from "../services/queueService";
+import { waSettingsRepository } from "../repositories/waSettingsRepository";
+import { REMINDER_TEMPLATE_TYPE } from "../utils/reminderSchedule";
+
+jest.mock("../config/database", () => ({
+  prisma: { $queryRaw: jest.fn() },
+}));
+jest.mock("../services/queueService", () => ({
+  queueService: { enqueueMessage: jest.fn() },
+}));
+jest.mock("../repositories/waSettingsRepository", () => ({
+  waSettingsRepository: { getByOwner: jest.fn() },
+}));
+
+const queryRaw = prisma.$queryRaw as unknown as jest.Mock;
+const enqueueMessage = queueService.enqueueMessage as jest.Mock;
+const getByOwner = waSettingsRepository.getByOwner as jest.Mock;
+
+const settings = (ownerId: number, reminderEnabled = true) => ({
+  ownerId,
+  reminderEnabled,
+  reminderDaysBefore: 1,
+  reminderTime: "10:00",
+  timezone: "America/Sao_Paulo",
+});
+
+describe("ReminderGenerator.generateOnce", () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+    getByOwner.mockImplementation(async (ownerId: number) =>
+      settings(ownerId, ownerId !== 2)
+    );
+    enqueueMessage.mockResolvedValue({ success: true });
+  });
+
+  it("não busca agendamentos com status de cancelamento", async () => {
+    queryRaw.mockResolvedValue([]);
+
+    await new ReminderGenerator().generateOnce();
+
+    // Prisma.join com os status de SCHEDULE_CANCELLED_STATUSES
+    const [, ...values] = queryRaw.mock.calls[0];
+    const cancelled = values.find((value: any) =>
+      Array.isArray(value?.values)
+    );
+    expect(cancelled.values).toEqual(config.scheduleCancelledStatuses);
+  });
+
+  it("enfileira lembretes e conta ignorados e falhas", async () => {
+    const future = new Date("2099-03-10T00:00:00Z");
+    queryRaw.mockResolvedValue([
+      { id: 1, owner: 1, dates: future, times: "14:30" },
+      { id: 2, owner: 2, dates: future, times: "15:00" }, // lembretes desativados
+      { id: 3, owner: 1, dates: new Date("2000-01-01T00:00:00Z"), times: "09:00" },
+      { id: 4, owner: 1, dates: future, times: "16:00" },
+    ]);
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+    enqueueMessage
+      .mockResolvedValueOnce({ success: true })
+      .mockRejectedValueOnce(new Error("Template 'lembrete' não encontrado"));
+
+    const result = await new ReminderGenerator().generateOnce();
+
+    expect(result).toEqual({ scanned: 4, enqueued: 1, skipped: 2, failed: 1 });
+    expect(enqueueMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        scheduleId: 1,
+        templateType: REMINDER_TEMPLATE_TYPE,
+        sendAt: expect.any(Date),
+      }),
+      { processNow: false }
+    );
+    // Configurações buscadas uma vez por owner
+    expect(getByOwner).toHaveBeenCalledTimes(2);
+  });
+});
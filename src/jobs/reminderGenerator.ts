@@ -0,0 +1,218 @@
+// src/jobs/reminderGenerator.ts
+// Job para gerar lembretes de confirmação automaticamente a partir dos agendamentos
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "../config/database";
+import { queueService } from "../services/queueService";
+import { waSettingsRepository } from "../repositories/waSettingsRepository";
+import { logger } from "../utils/logger";
+import { config } from "../config/config";
+import {
+  REMINDER_TEMPLATE_TYPE,
+  computeReminderSendAt,
+} from "../utils/reminderSchedule";
+import type { TenantSettings } from "../types/settings.types";
+
+export interface ReminderCandidate {
+  id: number;
+  owner: number;
+  dates: Date;
+  times: string | null;
+}
+
+export interface ReminderRunResult {
+  scanned: number;
+  enqueued: number;
+  skipped: number;
+  failed: number;
+}
+
+export class ReminderGenerator {
+  private intervalId: NodeJS.Timeout | null = null;
+  private isGenerating: boolean = false;
+
+  /**
+   * Inicia a geração automática de lembretes
+   */
+  start(intervalMinutes?: number): void {
+    if (this.intervalId) {
+      logger.warn("Reminder generator já está rodando");
+      return;
+    }
+
+    const interval = intervalMinutes || config.reminderScanInterval;
+    const intervalMs = interval * 60 * 1000;
+
+    logger.info(
+      `Iniciando reminder generator com intervalo de ${interval} minutos`
+    );
+    logger.info(`Janela de busca: ${config.reminderLookaheadDays} dias`);
+
+    // Gerar imediatamente na primeira vez
+    this.generate();
+
+    // Configurar intervalo
+    this.intervalId = setInterval(() => {
+      this.generate();
+    }, intervalMs);
+  }
+
+  /**
+   * Para a geração automática
+   */
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      logger.info("Reminder generator parado");
+    }
+  }
+
+  /**
+   * Verifica se está rodando
+   */
+  isRunning(): boolean {
+    return this.intervalId !== null;
+  }
+
+  /**
+   * Executa uma varredura manualmente
+   */
+  async generateOnce(): Promise<ReminderRunResult> {
+    if (this.isGenerating) {
+      throw new Error("Geração de lembretes já em andamento");
+    }
+
+    this.isGenerating = true;
+    try {
+      return await this.scanAndEnqueue();
+    } finally {
+      this.isGenerating = false;
+    }
+  }
+
+  /**
+   * Calcula quando o lembrete deve sair conforme configuração do tenant
+   * @returns Data de envio ou null se a consulta já passou
+   */
+  computeSendAt(
+    schedule: Pick<ReminderCandidate, "dates" | "times">,
+    settings: TenantSettings,
+    now: Date = new Date()
+  ): Date | null {
+    return computeReminderSendAt(schedule, settings, now);
+  }
+
+  /**
+   * Executa a geração (intervalo)
+   */
+  private async generate(): Promise<void> {
+    if (this.isGenerating) {
+      logger.info("Geração de lembretes já em andamento, pulando...");
+      return;
+    }
+
+    this.isGenerating = true;
+
+    try {
+      logger.info("Iniciando geração de lembretes");
+      const result = await this.scanAndEnqueue();
+      logger.info("Geração de lembretes concluída", { ...result });
+    } catch (error) {
+      logger.error("Erro na geração de lembretes", error);
+    } finally {
+      this.isGenerating = false;
+    }
+  }
+
+  /**
+   * Busca agendamentos sem lembrete e enfileira o template de confirmação
+   */
+  private async scanAndEnqueue(): Promise<ReminderRunResult> {
+    const candidates = await this.findCandidates();
+    const settingsCache = new Map<number, TenantSettings>();
+    const result: ReminderRunResult = {
+      scanned: candidates.length,
+      enqueued: 0,
+      skipped: 0,
+      failed: 0,
+    };
+
+    for (const schedule of candidates) {
+      try {
+        let settings = settingsCache.get(schedule.owner);
+        if (!settings) {
+          settings = await waSettingsRepository.getByOwner(schedule.owner);
+          settingsCache.set(schedule.owner, settings);
+        }
+
+        if (!settings.reminderEnabled) {
+          result.skipped++;
+          continue;
+        }
+
+        const sendAt = this.computeSendAt(schedule, settings);
+
+        if (!sendAt) {
+          result.skipped++;
+          continue;
+        }
+
+        // O envio fica sempre com o processador, mesmo se já for a hora
+        await queueService.enqueueMessage(
+          {
+            scheduleId: schedule.id,
+            templateType: REMINDER_TEMPLATE_TYPE,
+            sendAt,
+          },
+          { processNow: false }
+        );
+
+        result.enqueued++;
+      } catch (error) {
+        result.failed++;
+        logger.error("Erro ao gerar lembrete", error, {
+          scheduleId: schedule.id,
+          ownerId: schedule.owner,
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Agendamentos próximos, não confirmados nem cancelados, de clientes com
+   * WhatsApp ativo e sem lembrete já enfileirado
+   */
+  private async findCandidates(): Promise<ReminderCandidate[]> {
+    return prisma.$queryRaw<ReminderCandidate[]>`
+      SELECT s.id, s.owner, s.dates, s.times
+      FROM of_schedules s
+      INNER JOIN of_clients c ON c.id = s.owner
+      WHERE s.dates >= CURDATE()
+      AND s.dates <= DATE_ADD(CURDATE(), INTERVAL ${config.reminderLookaheadDays} DAY)
+      AND (s.whatsConf = 0 OR s.whatsConf IS NULL)
+      AND (
+        s.sts IS NULL
+        OR (
+          s.sts NOT IN (6, 7)
+          AND s.sts NOT IN (${Prisma.join(config.scheduleCancelledStatuses)})
+        )
+      )
+      AND s.patient IS NOT NULL
+      AND c.waactive = 1
+      AND NOT EXISTS (
+        SELECT 1
+        FROM wa_queue q
+        INNER JOIN wa_templates t ON t.id = q.template_id
+        WHERE q.schedule_id = s.id
+        AND t.type = ${REMINDER_TEMPLATE_TYPE}
+      )
+      ORDER BY s.dates ASC, s.times ASC
+      LIMIT ${config.reminderBatchSize}
+    `;
+  }
+}
+
+export const reminderGenerator = new ReminderGenerator();
@@ -0,0 +1,183 @@
+// src/middlewares/apiKeyAuth.ts
+// Middlewares de autenticação por API Key e autorização por tenant
+
+import { Request, Response, NextFunction } from "express";
+import { apiKeyService } from "../services/apiKeyService";
+import { scheduleRepository } from "../repositories/scheduleRepository";
+import { createAppError } from "./errorHandler";
+import { logger } from "../utils/logger";
+
+/**
+ * Extrair API Key do header X-API-Key ou Authorization: Bearer
+ */
+const extractApiKey = (req: Request): string | null => {
+  const headerKey = req.get("X-API-Key");
+  if (headerKey) return headerKey.trim();
+
+  const authorization = req.get("Authorization");
+  if (authorization?.startsWith("Bearer ")) {
+    return authorization.substring(7).trim();
+  }
+
+  return null;
+};
+
+/**
+ * Coletar tenantId informado em params, body ou query
+ */
+const collectTenantIds = (req: Request): string[] => {
+  const candidates = [
+    req.params?.tenantId,
+    req.body?.tenantId,
+    req.query?.tenantId,
+  ];
+
+  return candidates
+    .filter((value) => value !== undefined && value !== null && value !== "")
+    .map((value) => String(value));
+};
+
+/**
+ * Verificar se o contexto autenticado tem acesso ao tenant
+ */
+export const hasTenantAccess = (
+  req: Request,
+  tenantId: number | string
+): boolean => {
+  if (!req.auth) return false;
+  if (req.auth.isAdmin) return true;
+  return req.auth.tenantId === String(tenantId);
+};
+
+/**
+ * Lançar 403 se o contexto autenticado não tiver acesso ao tenant
+ */
+export const assertTenantAccess = (
+  req: Request,
+  tenantId: number | string
+): void => {
+  if (!hasTenantAccess(req, tenantId)) {
+    throw createAppError(
+      "API Key não tem acesso a este tenant",
+      403,
+      "TENANT_FORBIDDEN"
+    );
+  }
+};
+
+/**
+ * Autenticar requisição pela API Key
+ */
+export const authenticateApiKey = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const apiKey = extractApiKey(req);
+
+    if (!apiKey) {
+      throw createAppError("API Key não informada", 401, "API_KEY_MISSING");
+    }
+
+    const auth = await apiKeyService.authenticate(apiKey);
+
+    if (!auth) {
+      logger.warn("API Key inválida ou revogada", {
+        url: req.originalUrl,
+        ip: req.ip,
+      });
+      throw createAppError(
+        "API Key inválida ou revogada",
+        401,
+        "API_KEY_INVALID"
+      );
+    }
+
+    req.auth = auth;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Garantir que o tenantId da requisição pertence à API Key
+ */
+export const authorizeTenant = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const tenantIds = collectTenantIds(req);
+
+  const forbidden = tenantIds.find((tenantId) => !hasTenantAccess(req, tenantId));
+
+  if (forbidden) {
+    logger.warn("Acesso negado ao tenant", {
+      requestedTenantId: forbidden,
+      keyTenantId: req.auth?.tenantId,
+      url: req.originalUrl,
+    });
+    return next(
+      createAppError(
+        "API Key não tem acesso a este tenant",
+        403,
+        "TENANT_FORBIDDEN"
+      )
+    );
+  }
+
+  next();
+};
+
+/**
+ * Garantir que o agendamento (scheduleId) pertence ao tenant da API Key
+ */
+export const authorizeSchedule = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (req.auth?.isAdmin) return next();
+
+    const scheduleId = Number(req.params?.scheduleId ?? req.body?.scheduleId);
+
+    if (!scheduleId || isNaN(scheduleId)) {
+      // Sem scheduleId a validação do controller retorna o erro adequado
+      return next();
+    }
+
+    const schedule = await scheduleRepository.getById(scheduleId);
+
+    if (schedule) {
+      assertTenantAccess(req, schedule.owner);
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Restringir rota à chave administrativa
+ */
+export const requireAdmin = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (!req.auth?.isAdmin) {
+    return next(
+      createAppError(
+        "Operação restrita à chave administrativa",
+        403,
+        "ADMIN_REQUIRED"
+      )
+    );
+  }
+
+  next();
+};
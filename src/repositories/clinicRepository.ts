@@ -0,0 +1,89 @@
+// src/repositories/clinicRepository.ts
+// Repository para dados das clínicas (of_clients) usados nas mensagens
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "../config/database";
+import { logger } from "../utils/logger";
+
+export interface ClinicData {
+  id: number;
+  name: string | null; // client_name
+  friendlyName: string | null; // friendly_name
+  address: string | null; // Endereço em uma linha
+}
+
+// Colunas de of_clients usadas nas mensagens
+interface ClinicRow {
+  id: number;
+  client_name: string | null;
+  friendly_name: string | null;
+  addr_addr: string | null;
+  addr_number: string | number | null;
+  addr_plus: string | null;
+  addr_area: string | null;
+  addr_city: string | null;
+  addr_uf: string | null;
+}
+
+export class ClinicRepository {
+  /**
+   * Busca clínica (owner) por ID
+   */
+  async getById(ownerId: number): Promise<ClinicData | null> {
+    const clinics = await this.getByIds([ownerId]);
+    return clinics.get(ownerId) ?? null;
+  }
+
+  /**
+   * Busca clínicas por IDs
+   */
+  async getByIds(ownerIds: number[]): Promise<Map<number, ClinicData>> {
+    const clinics = new Map<number, ClinicData>();
+    if (ownerIds.length === 0) return clinics;
+
+    try {
+      const rows = await prisma.$queryRaw<ClinicRow[]>`
+        SELECT id, client_name, friendly_name,
+          addr_addr, addr_number, addr_plus, addr_area, addr_city, addr_uf
+        FROM of_clients
+        WHERE id IN (${Prisma.join(ownerIds)})
+      `;
+
+      for (const row of rows) {
+        clinics.set(Number(row.id), {
+          id: Number(row.id),
+          name: row.client_name || null,
+          friendlyName: row.friendly_name || null,
+          address: this.formatAddress(row),
+        });
+      }
+    } catch (error) {
+      logger.error("Erro ao buscar clínicas", error, { ownerIds });
+    }
+
+    return clinics;
+  }
+
+  /**
+   * "Rua X, 123 - Sala 4 - Centro - São Paulo/SP"
+   */
+  private formatAddress(row: ClinicRow): string | null {
+    const street = [row.addr_addr, row.addr_number]
+      .map((part) => String(part ?? "").trim())
+      .filter((part) => part !== "")
+      .join(", ");
+    const city = [row.addr_city, row.addr_uf]
+      .map((part) => String(part ?? "").trim())
+      .filter((part) => part !== "")
+      .join("/");
+
+    const address = [street, row.addr_plus, row.addr_area, city]
+      .map((part) => String(part ?? "").trim())
+      .filter((part) => part !== "")
+      .join(" - ");
+
+    return address || null;
+  }
+}
+
+export const clinicRepository = new ClinicRepository();
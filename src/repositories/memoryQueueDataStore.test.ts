@@ -0,0 +1,58 @@
+// src/repositories/memoryQueueDataStore.test.ts
+
+import { MemoryQueueDataStore } from "./memoryQueueDataStore";
+
+const schedule = (id: number, dates: string, times: string, sts = 1) => ({
+  id,
+  owner: 1,
+  patient: 20,
+  sts,
+  dates: new Date(`${dates}T00:00:00Z`),
+  times,
+});
+
+describe("MemoryQueueDataStore", () => {
+  let store: MemoryQueueDataStore;
+
+  beforeEach(() => {
+    store = new MemoryQueueDataStore();
+  });
+
+  it("busca agendamentos do período em ordem de data e hora", async () => {
+    store.seedSchedule(schedule(1, "2026-03-11", "09:00"));
+    store.seedSchedule(schedule(2, "2026-03-10", "15:00"));
+    store.seedSchedule(schedule(3, "2026-03-10", "08:00", 4));
+    store.seedSchedule(schedule(4, "2026-03-20", "08:00"));
+    store.seedSchedule({ ...schedule(5, "2026-03-10", "10:00"), patient: null });
+
+    expect(
+      await store.findScheduleIds(
+        { dateFrom: "2026-03-10", dateTo: "2026-03-11" },
+        10
+      )
+    ).toEqual([3, 2, 1]);
+    expect(
+      await store.findScheduleIds(
+        { dateFrom: "2026-03-10", dateTo: "2026-03-11", sts: [1] },
+        1
+      )
+    ).toEqual([2]);
+  });
+
+  it("usa os padrões do .env para tenants sem configuração", async () => {
+    store.seedSettings({ ownerId: 2, timezone: "America/Manaus" });
+
+    expect((await store.getSettings(2)).timezone).toBe("America/Manaus");
+    expect((await store.getSettings(3)).sendWindowEnabled).toBe(false);
+  });
+
+  it("só considera sessões conectadas ou conectando", async () => {
+    store.seedSession(1, { status: "DISCONNECTED" });
+    store.seedSession(2, { status: "CONNECTING" });
+
+    expect(await store.getActiveSession(1)).toBeNull();
+    expect(await store.getActiveSession(2)).toMatchObject({
+      status: "CONNECTING",
+    });
+  });
+});
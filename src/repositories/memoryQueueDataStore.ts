@@ -0,0 +1,336 @@
+// src/repositories/memoryQueueDataStore.ts
+// Implementação em memória dos dados usados pela fila (testes e demonstrações)
+// Agendamentos, pacientes, templates, clínicas, sessões e configurações
+// são cadastrados pelos métodos seed*; os dados se perdem ao reiniciar.
+// O envio real por WhatsApp ainda lê as credenciais da Evolution API no banco.
+
+import { MessageChannelType, MessageStatus } from "../types/queue.types";
+import { waSettingsRepository } from "./waSettingsRepository";
+import type { ClinicData } from "./clinicRepository";
+import type { ScheduleFilters } from "./scheduleRepository";
+import type { TenantSettings } from "../types/settings.types";
+import type { TemplateSource } from "../types/template.types";
+import type {
+  QueueClinicMail,
+  QueueDataStore,
+  QueueMessageHistoryRow,
+  QueueMessageLog,
+  QueuePatient,
+  QueueSchedule,
+  QueueSession,
+  QueueTemplate,
+} from "./queueDataStore";
+
+export interface StoredQueueMessage extends QueueMessageLog {
+  id: number;
+  createdAt: Date;
+}
+
+// Clínica com os dados de envio de e-mail
+export type MemoryClinic = ClinicData & Omit<QueueClinicMail, "clinicName">;
+
+export class MemoryQueueDataStore implements QueueDataStore {
+  private schedules = new Map<number, QueueSchedule>();
+  private patients = new Map<number, QueuePatient>();
+  private templates = new Map<number, QueueTemplate>();
+  private clinics = new Map<number, MemoryClinic>();
+  private sessions = new Map<number, QueueSession>();
+  private settings = new Map<number, TenantSettings>();
+  private messages: StoredQueueMessage[] = [];
+  private nextMessageId = 1;
+
+  async getSchedule(scheduleId: number): Promise<QueueSchedule | null> {
+    const schedule = this.schedules.get(scheduleId);
+    return schedule ? { ...schedule } : null;
+  }
+
+  async getPatient(patientId: number): Promise<QueuePatient | null> {
+    const patient = this.patients.get(patientId);
+    return patient ? { ...patient } : null;
+  }
+
+  async getTemplate(templateId: number): Promise<QueueTemplate | null> {
+    const template = this.templates.get(templateId);
+    return template ? { ...template } : null;
+  }
+
+  async getActiveTemplate(
+    ownerId: number,
+    type: string
+  ): Promise<QueueTemplate | null> {
+    const template = [...this.templates.values()].find(
+      (template) =>
+        template.owner_id === ownerId &&
+        template.type === type &&
+        Boolean(template.active)
+    );
+
+    return template ? { ...template } : null;
+  }
+
+  async markScheduleConfirmed(scheduleId: number): Promise<void> {
+    const schedule = this.schedules.get(scheduleId);
+    if (schedule) schedule.whatsConf = true;
+  }
+
+  async logMessage(data: QueueMessageLog): Promise<void> {
+    this.messages.push({
+      ...data,
+      id: this.nextMessageId++,
+      channel: data.channel ?? MessageChannelType.WHATSAPP,
+      createdAt: new Date(),
+    });
+  }
+
+  async countSentSince(ownerId: number, since: Date): Promise<number> {
+    return this.messages.filter(
+      (message) =>
+        message.owner === ownerId &&
+        message.status === MessageStatus.ENVIADA &&
+        message.channel === MessageChannelType.WHATSAPP &&
+        message.createdAt >= since
+    ).length;
+  }
+
+  async getMessageHistory(
+    scheduleId: number
+  ): Promise<QueueMessageHistoryRow[]> {
+    return this.messages
+      .filter((message) => message.scheduleId === scheduleId)
+      .reverse()
+      .map((message) => ({
+        id: message.id,
+        schedule_id: message.scheduleId,
+        owner: message.owner,
+        user_id: message.userId,
+        template_id: message.templateId,
+        direction: message.direction,
+        message: message.message,
+        status: message.status,
+        created_at: message.createdAt,
+        queue_id: message.queueId ?? null,
+        attempt: message.attempt ?? null,
+        error_code: message.errorCode ?? null,
+        error_message: message.errorMessage ?? null,
+        external_id: message.externalId ?? null,
+        delivery_status: null,
+        delivered_at: null,
+        read_at: null,
+        channel: message.channel ?? MessageChannelType.WHATSAPP,
+        template_type: this.templates.get(message.templateId)?.type ?? null,
+      }));
+  }
+
+  async findScheduleIds(
+    filters: ScheduleFilters,
+    limit: number
+  ): Promise<number[]> {
+    const day = (date: Date) => new Date(date).toISOString().substring(0, 10);
+
+    return [...this.schedules.values()]
+      .filter(
+        (schedule) =>
+          schedule.patient !== null &&
+          day(schedule.dates) >= filters.dateFrom &&
+          day(schedule.dates) <= filters.dateTo &&
+          (filters.ownerId === undefined || schedule.owner === filters.ownerId) &&
+          (filters.partner === undefined ||
+            schedule.partner === filters.partner) &&
+          (!filters.sts?.length ||
+            (schedule.sts !== null && filters.sts.includes(schedule.sts)))
+      )
+      .sort(
+        (a, b) =>
+          day(a.dates).localeCompare(day(b.dates)) ||
+          (a.times ?? "").localeCompare(b.times ?? "")
+      )
+      .slice(0, limit)
+      .map((schedule) => schedule.id);
+  }
+
+  async getScheduleSource(
+    scheduleId: number
+  ): Promise<(TemplateSource & { owner: number }) | null> {
+    const schedule = this.schedules.get(scheduleId);
+    const patient =
+      schedule?.patient != null ? this.patients.get(schedule.patient) : null;
+
+    if (!schedule || !patient) return null;
+
+    return {
+      owner: schedule.owner,
+      dates: schedule.dates,
+      times: schedule.times,
+      procedures: schedule.procedures,
+      partner: schedule.partner,
+      price: schedule.price,
+      sedation: schedule.sedation,
+      surgery: schedule.surgery,
+      laboratory: schedule.laboratory,
+      patients_name: patient.patients_name,
+      patients_dateb: patient.patients_dateb,
+      parent_name: patient.parent_name,
+    };
+  }
+
+  async getSettings(ownerId: number): Promise<TenantSettings> {
+    const settings = this.settings.get(ownerId);
+    return settings
+      ? { ...settings }
+      : waSettingsRepository.getDefaults(ownerId);
+  }
+
+  async getClinics(ownerIds: number[]): Promise<Map<number, ClinicData>> {
+    const clinics = new Map<number, ClinicData>();
+
+    for (const ownerId of ownerIds) {
+      const clinic = this.clinics.get(ownerId);
+      if (clinic) {
+        const { id, name, friendlyName, address } = clinic;
+        clinics.set(ownerId, { id, name, friendlyName, address });
+      }
+    }
+
+    return clinics;
+  }
+
+  async getClinicMail(ownerId: number): Promise<QueueClinicMail | null> {
+    const clinic = this.clinics.get(ownerId);
+    if (!clinic) return null;
+
+    const { id, name, friendlyName, address, ...mail } = clinic;
+    return { ...mail, clinicName: friendlyName || name || null };
+  }
+
+  async getActiveSession(ownerId: number): Promise<QueueSession | null> {
+    const session = this.sessions.get(ownerId);
+    return session &&
+      (session.status === "CONNECTED" || session.status === "CONNECTING")
+      ? { ...session }
+      : null;
+  }
+
+  /**
+   * Cadastra (ou substitui) agendamento
+   */
+  seedSchedule(
+    schedule: Pick<QueueSchedule, "id" | "owner" | "patient" | "dates"> &
+      Partial<QueueSchedule>
+  ): void {
+    this.schedules.set(schedule.id, {
+      sts: null,
+      times: null,
+      procedures: null,
+      partner: null,
+      price: null,
+      sedation: null,
+      surgery: null,
+      laboratory: null,
+      whatsConf: null,
+      ...schedule,
+    });
+  }
+
+  /**
+   * Cadastra (ou substitui) paciente
+   */
+  seedPatient(
+    patient: Pick<QueuePatient, "id" | "patients_name"> & Partial<QueuePatient>
+  ): void {
+    this.patients.set(patient.id, {
+      patients_dateb: null,
+      parent_name: null,
+      tel1: null,
+      tel2: null,
+      email: null,
+      ...patient,
+    });
+  }
+
+  /**
+   * Cadastra (ou substitui) template
+   */
+  seedTemplate(
+    template: Pick<QueueTemplate, "id" | "owner_id" | "type" | "content"> &
+      Partial<QueueTemplate>
+  ): void {
+    this.templates.set(template.id, {
+      active: true,
+      channels: null,
+      ...template,
+    });
+  }
+
+  /**
+   * Cadastra (ou substitui) clínica (of_clients)
+   */
+  seedClinic(clinic: Pick<MemoryClinic, "id"> & Partial<MemoryClinic>): void {
+    this.clinics.set(clinic.id, {
+      name: null,
+      friendlyName: null,
+      address: null,
+      email: null,
+      smtpHost: null,
+      smtpPort: null,
+      smtpUser: null,
+      smtpPass: null,
+      smtpSender: null,
+      ...clinic,
+    });
+  }
+
+  /**
+   * Cadastra (ou substitui) a sessão WhatsApp do tenant
+   */
+  seedSession(
+    ownerId: number,
+    session: Partial<QueueSession> = {}
+  ): void {
+    this.sessions.set(ownerId, {
+      sessionName: `tenant_${ownerId}`,
+      status: "CONNECTED",
+      phoneNumber: null,
+      connectedAt: new Date(),
+      ...session,
+    });
+  }
+
+  /**
+   * Cadastra configurações do tenant (demais campos com os padrões do .env)
+   */
+  seedSettings(
+    settings: Pick<TenantSettings, "ownerId"> & Partial<TenantSettings>
+  ): void {
+    this.settings.set(settings.ownerId, {
+      ...waSettingsRepository.getDefaults(settings.ownerId),
+      ...settings,
+    });
+  }
+
+  /**
+   * Histórico registrado (mais antigo primeiro)
+   */
+  getMessages(scheduleId?: number): StoredQueueMessage[] {
+    return this.messages
+      .filter(
+        (message) => scheduleId === undefined || message.scheduleId === scheduleId
+      )
+      .map((message) => ({ ...message }));
+  }
+
+  /**
+   * Remove todos os dados (útil entre testes)
+   */
+  clear(): void {
+    this.schedules.clear();
+    this.patients.clear();
+    this.templates.clear();
+    this.clinics.clear();
+    this.sessions.clear();
+    this.settings.clear();
+    this.messages = [];
+    this.nextMessageId = 1;
+  }
+}
+
+export const memoryQueueDataStore = new MemoryQueueDataStore();
@@ -0,0 +1,62 @@
+// src/repositories/memoryQueueStore.test.ts
+
+import { MemoryQueueStore } from "./memoryQueueStore";
+
+const enqueueData = {
+  schedule_id: 10,
+  owner_id: 1,
+  user_id: 1,
+  template_id: 3,
+};
+
+describe("MemoryQueueStore", () => {
+  let store: MemoryQueueStore;
+
+  beforeEach(() => {
+    store = new MemoryQueueStore();
+  });
+
+  // Simula o lease expirado sendo reservado por outra réplica
+  const stealLease = (queueId: number) => {
+    (store as any).items.get(queueId).locked_by = "replica-2";
+  };
+
+  it("registra envio do item reservado por esta instância", async () => {
+    const queueId = await store.enqueue(enqueueData);
+
+    expect(await store.claim(queueId)).toBe(true);
+    expect(await store.markSent(queueId, 1, "whatsapp")).toBe(true);
+
+    const item = await store.getById(queueId);
+    expect(item?.status).toBe("Enviada");
+    expect(item?.channel).toBe("whatsapp");
+    expect(item?.locked_by).toBeNull();
+  });
+
+  it("não sobrescreve o resultado de quem reservou o item depois", async () => {
+    const queueId = await store.enqueue(enqueueData);
+    await store.claim(queueId);
+    stealLease(queueId);
+
+    expect(await store.markSent(queueId, 1, "whatsapp")).toBe(false);
+    expect(
+      await store.markFailed(queueId, {
+        attempt: 1,
+        errorCode: "EVOLUTION_TIMEOUT",
+        errorMessage: "timeout",
+        nextRetryAt: null,
+      })
+    ).toBe(false);
+
+    const item = await store.getById(queueId);
+    expect(item?.status).toBe("Aguardando");
+    expect(item?.locked_by).toBe("replica-2");
+    expect(item?.attempts).toBe(0);
+  });
+
+  it("não registra resultado de item que não foi reservado", async () => {
+    const queueId = await store.enqueue(enqueueData);
+
+    expect(await store.markSent(queueId, 1, "whatsapp")).toBe(false);
+  });
+});
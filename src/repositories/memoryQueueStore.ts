@@ -0,0 +1,543 @@
+// src/repositories/memoryQueueStore.ts
+// Implementação em memória do QueueStore (testes e demonstrações locais)
+// Os dados se perdem ao reiniciar e não são compartilhados entre réplicas.
+// Template, agendamento e paciente vêm do memoryQueueDataStore (o "JOIN").
+
+import { Prisma } from "@prisma/client";
+import { logger } from "../utils/logger";
+import { config } from "../config/config";
+import {
+  DeadLetterFilters,
+  DeadLetterGroup,
+  QueueItemFilters,
+  QueuePriority,
+} from "../types/queue.types";
+import type {
+  AttemptFailureData,
+  EnqueueData,
+  QueueItem,
+  QueueItemStatus,
+  QueueListRow,
+  QueueStatusCount,
+  QueueStore,
+} from "./queueStore";
+import { memoryQueueDataStore } from "./memoryQueueDataStore";
+
+export class MemoryQueueStore implements QueueStore {
+  private items = new Map<number, QueueItem>();
+  private nextId = 1;
+
+  /**
+   * Adiciona item na fila
+   * @returns ID do item criado
+   */
+  async enqueue(data: EnqueueData): Promise<number> {
+    if (
+      data.idempotency_key &&
+      (await this.findByIdempotencyKey(data.owner_id, data.idempotency_key))
+    ) {
+      // Mesmo erro da unique key do MySQL para o QueueService tratar a corrida
+      throw new Prisma.PrismaClientKnownRequestError(
+        "Unique constraint failed: wa_queue_owner_idempotency_key",
+        { code: "P2002", clientVersion: Prisma.prismaVersion.client }
+      );
+    }
+
+    const queueId = this.nextId++;
+
+    this.items.set(queueId, {
+      id: queueId,
+      schedule_id: data.schedule_id,
+      owner_id: data.owner_id,
+      user_id: data.user_id,
+      template_id: data.template_id,
+      status: "Aguardando",
+      created_at: new Date(),
+      send_at: data.send_at ?? null,
+      priority: data.priority ?? QueuePriority.REMINDER,
+      exempt_limits: data.exempt_limits ?? false,
+      idempotency_key: data.idempotency_key ?? null,
+      schedule_dates: data.schedule_dates ?? null,
+      schedule_times: data.schedule_times ?? null,
+      schedule_changed_at: null,
+      channel: null,
+      attempts: 0,
+      last_error_code: null,
+      last_error_message: null,
+      next_retry_at: null,
+      locked_by: null,
+      locked_until: null,
+    });
+
+    logger.debug("Item adicionado à fila (memória)", { queueId, ...data });
+
+    return queueId;
+  }
+
+  async getById(queueId: number): Promise<QueueItem | null> {
+    const item = this.items.get(queueId);
+    return item ? { ...item } : null;
+  }
+
+  async getByIds(queueIds: number[]): Promise<QueueItem[]> {
+    return this.filter((item) => queueIds.includes(item.id));
+  }
+
+  async findByIdempotencyKey(
+    ownerId: number,
+    idempotencyKey: string
+  ): Promise<QueueItem | null> {
+    return (
+      this.filter(
+        (item) =>
+          item.owner_id === ownerId && item.idempotency_key === idempotencyKey
+      )[0] ?? null
+    );
+  }
+
+  async findDuplicate(
+    scheduleId: number,
+    templateId: number,
+    sentSince: Date
+  ): Promise<QueueItem | null> {
+    const matches = this.filter(
+      (item) =>
+        item.schedule_id === scheduleId &&
+        item.template_id === templateId &&
+        (item.status === "Aguardando" ||
+          (item.status === "Enviada" &&
+            !!item.sent_at &&
+            item.sent_at >= sentSince))
+    );
+
+    return matches.sort((a, b) => b.id - a.id)[0] ?? null;
+  }
+
+  async getPendingBySchedule(
+    scheduleId: number
+  ): Promise<(QueueItem & { template_type: string | null })[]> {
+    const items = this.filter(
+      (item) => item.schedule_id === scheduleId && item.status === "Aguardando"
+    ).sort((a, b) => a.id - b.id);
+
+    return Promise.all(
+      items.map(async (item) => ({
+        ...item,
+        template_type: await this.getTemplateType(item.template_id),
+      }))
+    );
+  }
+
+  async getAvailable(
+    queueId: number,
+    now: Date,
+    dueAt: Date | null
+  ): Promise<QueueItem | null> {
+    const item = this.items.get(queueId);
+
+    if (!item || !this.isAvailable(item, now, dueAt)) return null;
+
+    return { ...item };
+  }
+
+  /**
+   * Itens liberados para envio, intercalando tenants como no MySQL
+   */
+  async getPending(limit: number = 10): Promise<QueueItem[]> {
+    const now = new Date();
+    const ranks = new Map<number, number>();
+
+    return this.filter((item) => this.isAvailable(item, now, now))
+      .sort((a, b) => this.compareByPriority(a, b))
+      .map((item) => {
+        const rank = (ranks.get(item.owner_id) || 0) + 1;
+        ranks.set(item.owner_id, rank);
+        return { item, rank };
+      })
+      .sort((a, b) => a.rank - b.rank || this.compareByPriority(a.item, b.item))
+      .slice(0, limit)
+      .map(({ item }) => item);
+  }
+
+  async list(filters: QueueItemFilters): Promise<QueueListRow[]> {
+    const items = this.filter((item) => {
+      const at = item.send_at ?? item.created_at;
+
+      return (
+        (filters.ownerId === undefined || item.owner_id === filters.ownerId) &&
+        (!filters.status || item.status === filters.status) &&
+        (filters.scheduleId === undefined ||
+          item.schedule_id === filters.scheduleId) &&
+        (!filters.from || at >= filters.from) &&
+        (!filters.to || at <= filters.to) &&
+        (filters.cursor === undefined || item.id < filters.cursor)
+      );
+    }).sort((a, b) => b.id - a.id);
+
+    const rows = await Promise.all(items.map((item) => this.toListRow(item)));
+
+    return rows
+      .filter(
+        (row) =>
+          !filters.templateType || row.template_type === filters.templateType
+      )
+      .slice(0, filters.limit);
+  }
+
+  async countByStatusSince(since: Date): Promise<QueueStatusCount[]> {
+    const totals = new Map<QueueItemStatus, number>();
+
+    for (const item of this.filter((item) => item.created_at >= since)) {
+      totals.set(item.status, (totals.get(item.status) || 0) + 1);
+    }
+
+    return [...totals.entries()].map(([status, total]) => ({ status, total }));
+  }
+
+  async countPendingByTemplate(templateId: number): Promise<number> {
+    return this.filter(
+      (item) => item.template_id === templateId && item.status === "Aguardando"
+    ).length;
+  }
+
+  async getDeadLetterSummary(
+    filters: DeadLetterFilters
+  ): Promise<DeadLetterGroup[]> {
+    const groups = new Map<string | null, DeadLetterGroup>();
+
+    for (const item of await this.deadLetters(filters)) {
+      const errorCode = item.last_error_code ?? null;
+      const group = groups.get(errorCode);
+
+      if (!group) {
+        groups.set(errorCode, {
+          errorCode,
+          total: 1,
+          oldestCreatedAt: item.created_at,
+          newestCreatedAt: item.created_at,
+          sampleMessage: item.last_error_message ?? null,
+        });
+        continue;
+      }
+
+      group.total++;
+      if (item.created_at < group.oldestCreatedAt) {
+        group.oldestCreatedAt = item.created_at;
+      }
+      if (item.created_at > group.newestCreatedAt) {
+        group.newestCreatedAt = item.created_at;
+      }
+    }
+
+    return [...groups.values()].sort((a, b) => b.total - a.total);
+  }
+
+  async findDeadLetterIds(
+    filters: DeadLetterFilters,
+    limit: number
+  ): Promise<number[]> {
+    return (await this.deadLetters(filters))
+      .map((item) => item.id)
+      .sort((a, b) => a - b)
+      .slice(0, limit);
+  }
+
+  async claim(queueId: number): Promise<boolean> {
+    const now = new Date();
+    const item = this.items.get(queueId);
+
+    if (
+      !item ||
+      item.status !== "Aguardando" ||
+      (item.locked_until && item.locked_until > now)
+    ) {
+      return false;
+    }
+
+    item.locked_by = config.queueWorkerId;
+    item.locked_until = new Date(
+      now.getTime() + config.queueLeaseDuration * 1000
+    );
+
+    return true;
+  }
+
+  async releaseExpiredLeases(): Promise<number> {
+    const now = new Date();
+    let affected = 0;
+
+    for (const item of this.items.values()) {
+      if (
+        item.status === "Aguardando" &&
+        item.locked_until &&
+        item.locked_until <= now
+      ) {
+        this.unlock(item);
+        affected++;
+      }
+    }
+
+    return affected;
+  }
+
+  async markSent(
+    queueId: number,
+    attempt: number,
+    channel: string
+  ): Promise<boolean> {
+    const item = this.items.get(queueId);
+    if (!item || item.locked_by !== config.queueWorkerId) return false;
+
+    item.status = "Enviada";
+    item.sent_at = new Date();
+    item.channel = channel;
+    item.attempts = attempt;
+    item.next_retry_at = null;
+    this.unlock(item);
+    return true;
+  }
+
+  async markFailed(
+    queueId: number,
+    data: AttemptFailureData
+  ): Promise<boolean> {
+    const item = this.items.get(queueId);
+    if (!item || item.locked_by !== config.queueWorkerId) return false;
+
+    item.status = data.nextRetryAt ? "Aguardando" : "Erro";
+    item.attempts = data.attempt;
+    item.last_error_code = data.errorCode;
+    item.last_error_message = data.errorMessage;
+    item.next_retry_at = data.nextRetryAt;
+    this.unlock(item);
+    return true;
+  }
+
+  async updateStatus(queueId: number, status: QueueItemStatus): Promise<void> {
+    const item = this.items.get(queueId);
+    if (!item) return;
+
+    item.status = status;
+    if (status === "Enviada") {
+      item.sent_at = new Date();
+    }
+  }
+
+  async resetForRetry(queueId: number): Promise<boolean> {
+    const item = this.items.get(queueId);
+    if (!item || item.status !== "Erro") return false;
+
+    item.status = "Aguardando";
+    item.next_retry_at = null;
+    this.unlock(item);
+
+    return true;
+  }
+
+  async requeueMany(queueIds: number[]): Promise<QueueItem[]> {
+    const requeued = this.filter(
+      (item) => queueIds.includes(item.id) && item.status === "Erro"
+    );
+
+    for (const previous of requeued) {
+      const item = this.items.get(previous.id)!;
+      item.status = "Aguardando";
+      item.attempts = 0;
+      item.next_retry_at = null;
+      this.unlock(item);
+    }
+
+    return requeued;
+  }
+
+  async reschedule(queueId: number, sendAt: Date | null): Promise<boolean> {
+    return (await this.rescheduleMany([queueId], sendAt)) > 0;
+  }
+
+  async rescheduleMany(
+    queueIds: number[],
+    sendAt: Date | null
+  ): Promise<number> {
+    return this.updatePending(
+      (item) => queueIds.includes(item.id),
+      (item) => {
+        item.send_at = sendAt;
+      }
+    );
+  }
+
+  async cancelMany(queueIds: number[]): Promise<number> {
+    return this.updatePending(
+      (item) => queueIds.includes(item.id),
+      (item) => {
+        item.status = "Cancelada";
+        this.unlock(item);
+      }
+    );
+  }
+
+  async cancelBySchedule(scheduleId: number): Promise<number> {
+    return this.updatePending(
+      (item) => item.schedule_id === scheduleId,
+      (item) => {
+        item.status = "Cancelada";
+        this.unlock(item);
+      }
+    );
+  }
+
+  async cancelWithReason(
+    queueId: number,
+    errorCode: string,
+    errorMessage: string
+  ): Promise<boolean> {
+    const affected = this.updatePending(
+      (item) => item.id === queueId,
+      (item) => {
+        item.status = "Cancelada";
+        item.last_error_code = errorCode;
+        item.last_error_message = errorMessage;
+        this.unlock(item);
+      }
+    );
+
+    return affected > 0;
+  }
+
+  async applyScheduleChange(
+    queueId: number,
+    scheduleDates: Date,
+    scheduleTimes: string | null,
+    sendAt: Date | null
+  ): Promise<boolean> {
+    const affected = this.updatePending(
+      (item) => item.id === queueId,
+      (item) => {
+        item.schedule_dates = scheduleDates;
+        item.schedule_times = scheduleTimes;
+        item.send_at = sendAt;
+        item.schedule_changed_at = new Date();
+      }
+    );
+
+    return affected > 0;
+  }
+
+  /**
+   * Remove todos os itens (útil entre testes)
+   */
+  clear(): void {
+    this.items.clear();
+    this.nextId = 1;
+  }
+
+  /**
+   * Cópias dos itens que atendem ao filtro
+   */
+  private filter(predicate: (item: QueueItem) => boolean): QueueItem[] {
+    return [...this.items.values()]
+      .filter(predicate)
+      .map((item) => ({ ...item }));
+  }
+
+  /**
+   * Aplica a alteração nos itens Aguardando que atendem ao filtro
+   * @returns Quantidade de itens alterados
+   */
+  private updatePending(
+    predicate: (item: QueueItem) => boolean,
+    update: (item: QueueItem) => void
+  ): number {
+    let affected = 0;
+
+    for (const item of this.items.values()) {
+      if (item.status === "Aguardando" && predicate(item)) {
+        update(item);
+        affected++;
+      }
+    }
+
+    return affected;
+  }
+
+  private isAvailable(item: QueueItem, now: Date, dueAt: Date | null): boolean {
+    return (
+      item.status === "Aguardando" &&
+      (!dueAt || !item.send_at || item.send_at <= dueAt) &&
+      (!dueAt || !item.next_retry_at || item.next_retry_at <= dueAt) &&
+      (!item.locked_until || item.locked_until <= now)
+    );
+  }
+
+  /**
+   * priority DESC, COALESCE(send_at, created_at) ASC
+   */
+  private compareByPriority(a: QueueItem, b: QueueItem): number {
+    return (
+      b.priority - a.priority ||
+      (a.send_at ?? a.created_at).getTime() -
+        (b.send_at ?? b.created_at).getTime()
+    );
+  }
+
+  private async deadLetters(filters: DeadLetterFilters): Promise<QueueItem[]> {
+    const items = this.filter(
+      (item) =>
+        item.status === "Erro" &&
+        (filters.ownerId === undefined || item.owner_id === filters.ownerId) &&
+        (!filters.errorCode || item.last_error_code === filters.errorCode) &&
+        (filters.scheduleId === undefined ||
+          item.schedule_id === filters.scheduleId) &&
+        (!filters.from || item.created_at >= filters.from) &&
+        (!filters.to || item.created_at <= filters.to)
+    );
+
+    if (!filters.templateType) return items;
+
+    const types = await Promise.all(
+      items.map((item) => this.getTemplateType(item.template_id))
+    );
+    return items.filter((_, index) => types[index] === filters.templateType);
+  }
+
+  private async getTemplateType(templateId: number): Promise<string | null> {
+    return (await memoryQueueDataStore.getTemplate(templateId))?.type ?? null;
+  }
+
+  /**
+   * Item com template, agendamento e paciente (como o JOIN do MySQL)
+   */
+  private async toListRow(item: QueueItem): Promise<QueueListRow> {
+    const [template, schedule] = await Promise.all([
+      memoryQueueDataStore.getTemplate(item.template_id),
+      memoryQueueDataStore.getSchedule(item.schedule_id),
+    ]);
+    const patient = schedule?.patient
+      ? await memoryQueueDataStore.getPatient(schedule.patient)
+      : null;
+
+    return {
+      ...item,
+      template_type: template?.type ?? null,
+      template_content: template?.content ?? null,
+      patients_name: patient?.patients_name ?? null,
+      patients_dateb: patient?.patients_dateb ?? null,
+      parent_name: patient?.parent_name ?? null,
+      dates: schedule?.dates ?? null,
+      times: schedule?.times ?? null,
+      procedures: schedule?.procedures ?? null,
+      partner: schedule?.partner ?? null,
+      price: schedule?.price ?? null,
+      sedation: schedule ? Boolean(schedule.sedation) : null,
+      surgery: schedule ? Boolean(schedule.surgery) : null,
+      laboratory: schedule ? Boolean(schedule.laboratory) : null,
+    };
+  }
+
+  private unlock(item: QueueItem): void {
+    item.locked_by = null;
+    item.locked_until = null;
+  }
+}
+
+export const memoryQueueStore = new MemoryQueueStore();
@@ -0,0 +1,24 @@
+// src/repositories/mysqlQueueDataStore.test.ts
+
+import { mysqlQueueDataStore } from "./mysqlQueueDataStore";
+import { prisma } from "../config/database";
+
+jest.mock("../config/database", () => ({
+  prisma: { $executeRaw: jest.fn(async () => 1) },
+}));
+
+const executeRaw = prisma.$executeRaw as unknown as jest.Mock;
+
+describe("MysqlQueueDataStore.markScheduleConfirmed", () => {
+  it("marca whatsConf e atualiza date_lastupdate", async () => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+
+    await mysqlQueueDataStore.markScheduleConfirmed(10);
+
+    const [strings, ...values] = executeRaw.mock.calls[0];
+    const sql = strings.join("?");
+    expect(sql).toContain("whatsConf = 1");
+    expect(sql).toContain("date_lastupdate = NOW()");
+    expect(values).toEqual([10]);
+  });
+});
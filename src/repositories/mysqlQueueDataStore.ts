@@ -0,0 +1,254 @@
+// src/repositories/mysqlQueueDataStore.ts
+// Implementação MySQL dos dados usados pela fila
+// (of_schedules, all_patients, wa_templates, wa_messages, of_clients,
+// whatsapp_sessions e wa_settings)
+
+import { prisma } from "../config/database";
+import { logger } from "../utils/logger";
+import { DeliveryStatus, MessageChannelType } from "../types/queue.types";
+import { clinicRepository, ClinicData } from "./clinicRepository";
+import { scheduleRepository, ScheduleFilters } from "./scheduleRepository";
+import { waMessageRepository } from "./waMessageRepository";
+import { waSettingsRepository } from "./waSettingsRepository";
+import type { TenantSettings } from "../types/settings.types";
+import type { TemplateSource } from "../types/template.types";
+import type {
+  QueueClinicMail,
+  QueueDataStore,
+  QueueMessageHistoryRow,
+  QueueMessageLog,
+  QueuePatient,
+  QueueSchedule,
+  QueueSession,
+  QueueTemplate,
+} from "./queueDataStore";
+
+// Colunas de of_clients usadas no envio de e-mail
+interface ClinicMailRow {
+  client_name: string | null;
+  friendly_name: string | null;
+  email: string | null;
+  smtp_host: string | null;
+  smtp_port: number | string | null;
+  smtp_user: string | null;
+  smtp_pass: string | null;
+  smtp_sender: string | null;
+}
+
+export class MysqlQueueDataStore implements QueueDataStore {
+  async getSchedule(scheduleId: number): Promise<QueueSchedule | null> {
+    try {
+      const schedules = await prisma.$queryRaw<QueueSchedule[]>`
+        SELECT id, owner, patient, sts, dates, times, procedures, partner,
+          price, sedation, surgery, laboratory, whatsConf
+        FROM of_schedules
+        WHERE id = ${scheduleId}
+        LIMIT 1
+      `;
+
+      return schedules[0] ?? null;
+    } catch (error) {
+      logger.error("Erro ao buscar agendamento", error, { scheduleId });
+      throw error;
+    }
+  }
+
+  async getPatient(patientId: number): Promise<QueuePatient | null> {
+    try {
+      const patients = await prisma.$queryRaw<QueuePatient[]>`
+        SELECT id, patients_name, patients_dateb, parent_name, tel1, tel2, email
+        FROM all_patients
+        WHERE id = ${patientId}
+        LIMIT 1
+      `;
+
+      return patients[0] ?? null;
+    } catch (error) {
+      logger.error("Erro ao buscar paciente", error, { patientId });
+      throw error;
+    }
+  }
+
+  async getTemplate(templateId: number): Promise<QueueTemplate | null> {
+    try {
+      const templates = await prisma.$queryRaw<QueueTemplate[]>`
+        SELECT id, owner_id, type, content, active, channels
+        FROM wa_templates
+        WHERE id = ${templateId}
+        LIMIT 1
+      `;
+
+      return templates[0] ?? null;
+    } catch (error) {
+      logger.error("Erro ao buscar template", error, { templateId });
+      throw error;
+    }
+  }
+
+  async getActiveTemplate(
+    ownerId: number,
+    type: string
+  ): Promise<QueueTemplate | null> {
+    try {
+      const templates = await prisma.$queryRaw<QueueTemplate[]>`
+        SELECT id, owner_id, type, content, active, channels
+        FROM wa_templates
+        WHERE owner_id = ${ownerId}
+        AND type = ${type}
+        AND active = 1
+        LIMIT 1
+      `;
+
+      return templates[0] ?? null;
+    } catch (error) {
+      logger.error("Erro ao buscar template ativo", error, { ownerId, type });
+      throw error;
+    }
+  }
+
+  async markScheduleConfirmed(scheduleId: number): Promise<void> {
+    // Também atualiza date_lastupdate (sincronização pelo sistema de agendas)
+    await scheduleRepository.markAsWhatsAppConfirmed(scheduleId);
+  }
+
+  async logMessage(data: QueueMessageLog): Promise<void> {
+    await prisma.$executeRaw`
+      INSERT INTO wa_messages (
+        schedule_id, owner, user_id, template_id,
+        direction, message, status, created_at,
+        queue_id, attempt, error_code, error_message,
+        external_id, delivery_status, channel
+      )
+      VALUES (
+        ${data.scheduleId}, ${data.owner}, ${data.userId}, ${data.templateId},
+        ${data.direction}, ${data.message}, ${data.status}, NOW(),
+        ${data.queueId ?? null}, ${data.attempt ?? null},
+        ${data.errorCode ?? null}, ${data.errorMessage ?? null},
+        ${data.externalId ?? null},
+        ${data.externalId ? DeliveryStatus.ENVIADA : null},
+        ${data.channel ?? MessageChannelType.WHATSAPP}
+      )
+    `;
+  }
+
+  async countSentSince(ownerId: number, since: Date): Promise<number> {
+    return waMessageRepository.countSentSince(ownerId, since);
+  }
+
+  async getMessageHistory(
+    scheduleId: number
+  ): Promise<QueueMessageHistoryRow[]> {
+    try {
+      return await prisma.$queryRaw<QueueMessageHistoryRow[]>`
+        SELECT m.id, m.schedule_id, m.owner, m.user_id, m.template_id,
+          m.direction, m.message, m.status, m.created_at, m.queue_id,
+          m.attempt, m.error_code, m.error_message, m.external_id,
+          m.delivery_status, m.delivered_at, m.read_at, m.channel,
+          t.type as template_type
+        FROM wa_messages m
+        LEFT JOIN wa_templates t ON m.template_id = t.id
+        WHERE m.schedule_id = ${scheduleId}
+        ORDER BY m.created_at DESC
+      `;
+    } catch (error) {
+      logger.error("Erro ao buscar histórico de mensagens", error, {
+        scheduleId,
+      });
+      throw error;
+    }
+  }
+
+  async findScheduleIds(
+    filters: ScheduleFilters,
+    limit: number
+  ): Promise<number[]> {
+    return scheduleRepository.findIds(filters, limit);
+  }
+
+  async getScheduleSource(
+    scheduleId: number
+  ): Promise<(TemplateSource & { owner: number }) | null> {
+    try {
+      const rows = await prisma.$queryRaw<
+        (TemplateSource & { owner: number })[]
+      >`
+        SELECT s.owner, s.dates, s.times, s.procedures, s.partner, s.price,
+          s.sedation, s.surgery, s.laboratory,
+          p.patients_name, p.patients_dateb, p.parent_name
+        FROM of_schedules s
+        INNER JOIN all_patients p ON p.id = s.patient
+        WHERE s.id = ${scheduleId}
+        LIMIT 1
+      `;
+
+      return rows[0] ? { ...rows[0], owner: Number(rows[0].owner) } : null;
+    } catch (error) {
+      logger.error("Erro ao buscar agendamento com paciente", error, {
+        scheduleId,
+      });
+      throw error;
+    }
+  }
+
+  async getSettings(ownerId: number): Promise<TenantSettings> {
+    return waSettingsRepository.getByOwner(ownerId);
+  }
+
+  async getClinics(ownerIds: number[]): Promise<Map<number, ClinicData>> {
+    return clinicRepository.getByIds(ownerIds);
+  }
+
+  async getClinicMail(ownerId: number): Promise<QueueClinicMail | null> {
+    try {
+      const clients = await prisma.$queryRaw<ClinicMailRow[]>`
+        SELECT client_name, friendly_name, email,
+          smtp_host, smtp_port, smtp_user, smtp_pass, smtp_sender
+        FROM of_clients
+        WHERE id = ${ownerId}
+        LIMIT 1
+      `;
+
+      const client = clients[0];
+      if (!client) return null;
+
+      return {
+        clinicName: client.friendly_name || client.client_name || null,
+        email: client.email,
+        smtpHost: client.smtp_host,
+        smtpPort: client.smtp_port !== null ? Number(client.smtp_port) : null,
+        smtpUser: client.smtp_user,
+        smtpPass: client.smtp_pass,
+        smtpSender: client.smtp_sender,
+      };
+    } catch (error) {
+      logger.error("Erro ao buscar SMTP da clínica", error, { ownerId });
+      throw error;
+    }
+  }
+
+  async getActiveSession(ownerId: number): Promise<QueueSession | null> {
+    try {
+      // CONNECTED primeiro, depois a conexão mais recente
+      const sessions = await prisma.$queryRaw<QueueSession[]>`
+        SELECT sessionName, status, phoneNumber, connectedAt
+        FROM whatsapp_sessions 
+        WHERE tenantId = ${ownerId.toString()}
+        AND status IN ('CONNECTED', 'CONNECTING')
+        ORDER BY 
+          CASE 
+            WHEN status = 'CONNECTED' THEN 1 
+            WHEN status = 'CONNECTING' THEN 2 
+          END,
+          connectedAt DESC
+        LIMIT 1
+      `;
+
+      return sessions[0] ?? null;
+    } catch (error) {
+      logger.error("Erro ao buscar sessão WhatsApp", error, { ownerId });
+      throw error;
+    }
+  }
+}
+
+export const mysqlQueueDataStore = new MysqlQueueDataStore();
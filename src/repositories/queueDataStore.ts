@@ -0,0 +1,159 @@
+// src/repositories/queueDataStore.ts
+// Contrato dos dados usados pela fila fora de wa_queue
+// (agendamento, paciente, template, clínica, sessão, configurações do
+// tenant e histórico de mensagens)
+
+import { config } from "../config/config";
+import type {
+  DeliveryStatus,
+  MessageChannelType,
+  MessageDirection,
+  MessageStatus,
+} from "../types/queue.types";
+import type { TenantSettings } from "../types/settings.types";
+import type { TemplateSource } from "../types/template.types";
+import type { ClinicData } from "./clinicRepository";
+import type { ScheduleFilters } from "./scheduleRepository";
+import { mysqlQueueDataStore } from "./mysqlQueueDataStore";
+import { memoryQueueDataStore } from "./memoryQueueDataStore";
+
+// Agendamento (of_schedules) com os campos usados nos templates
+export interface QueueSchedule {
+  id: number;
+  owner: number;
+  patient: number | null;
+  sts: number | null;
+  dates: Date;
+  times: string | null;
+  procedures: string | null;
+  partner: number | null;
+  price: string | null;
+  sedation: boolean | number | null; // MySQL devolve 0/1
+  surgery: boolean | number | null;
+  laboratory: boolean | number | null;
+  whatsConf: boolean | number | null;
+}
+
+// Paciente (all_patients)
+export interface QueuePatient {
+  id: number;
+  patients_name: string;
+  patients_dateb: Date | null;
+  parent_name: string | null;
+  tel1: string | null;
+  tel2: string | null;
+  email: string | null;
+}
+
+// Template (wa_templates)
+export interface QueueTemplate {
+  id: number;
+  owner_id: number;
+  type: string;
+  content: string;
+  active: boolean | number;
+  channels: string | null; // NULL = prioridade do tenant
+}
+
+// Registro de tentativa/envio em wa_messages
+export interface QueueMessageLog {
+  scheduleId: number;
+  owner: number;
+  userId: number;
+  templateId: number;
+  direction: MessageDirection;
+  message: string;
+  status: MessageStatus;
+  queueId?: number;
+  attempt?: number;
+  channel?: MessageChannelType;
+  errorCode?: string | null;
+  errorMessage?: string | null;
+  externalId?: string | null;
+}
+
+// Linha do histórico de um agendamento (wa_messages + tipo do template)
+export interface QueueMessageHistoryRow {
+  id: number;
+  schedule_id: number;
+  owner: number;
+  user_id: number;
+  template_id: number | null;
+  direction: MessageDirection;
+  message: string;
+  status: MessageStatus | null;
+  created_at: Date | null;
+  queue_id: number | null;
+  attempt: number | null;
+  error_code: string | null;
+  error_message: string | null;
+  external_id: string | null;
+  delivery_status: DeliveryStatus | null;
+  delivered_at: Date | null;
+  read_at: Date | null;
+  channel: MessageChannelType;
+  template_type: string | null;
+}
+
+// Sessão WhatsApp ativa (CONNECTED ou CONNECTING) do tenant
+export interface QueueSession {
+  sessionName: string;
+  status: string;
+  phoneNumber: string | null;
+  connectedAt: Date | null;
+}
+
+// Remetente de e-mail da clínica (of_clients)
+export interface QueueClinicMail {
+  clinicName: string | null; // friendly_name ou client_name
+  email: string | null;
+  smtpHost: string | null;
+  smtpPort: number | null;
+  smtpUser: string | null;
+  smtpPass: string | null;
+  smtpSender: string | null;
+}
+
+/**
+ * Leituras e gravações do QueueService fora da tabela da fila
+ * Métodos de busca retornam null quando o registro não existe.
+ */
+export interface QueueDataStore {
+  getSchedule(scheduleId: number): Promise<QueueSchedule | null>;
+  getPatient(patientId: number): Promise<QueuePatient | null>;
+  getTemplate(templateId: number): Promise<QueueTemplate | null>;
+  getActiveTemplate(
+    ownerId: number,
+    type: string
+  ): Promise<QueueTemplate | null>;
+  markScheduleConfirmed(scheduleId: number): Promise<void>;
+  logMessage(data: QueueMessageLog): Promise<void>;
+  // Envios com sucesso pelo WhatsApp do owner desde a data (limite diário)
+  countSentSince(ownerId: number, since: Date): Promise<number>;
+  // Mais recentes primeiro
+  getMessageHistory(scheduleId: number): Promise<QueueMessageHistoryRow[]>;
+
+  // Seleção de agendamentos para envio em massa
+  findScheduleIds(filters: ScheduleFilters, limit: number): Promise<number[]>;
+  // Agendamento com os dados do paciente (pré-visualização de templates)
+  getScheduleSource(
+    scheduleId: number
+  ): Promise<(TemplateSource & { owner: number }) | null>;
+
+  // Configurações do tenant com os padrões do .env já aplicados
+  getSettings(ownerId: number): Promise<TenantSettings>;
+  getClinics(ownerIds: number[]): Promise<Map<number, ClinicData>>;
+  getClinicMail(ownerId: number): Promise<QueueClinicMail | null>;
+  getActiveSession(ownerId: number): Promise<QueueSession | null>;
+}
+
+/**
+ * Backend dos dados da fila conforme QUEUE_STORE
+ * (memory = tudo em memória, sem banco)
+ */
+export const createQueueDataStore = (
+  backend: "mysql" | "memory" = config.queueStore
+): QueueDataStore =>
+  backend === "memory" ? memoryQueueDataStore : mysqlQueueDataStore;
+
+export const queueDataStore: QueueDataStore = createQueueDataStore();
@@ -0,0 +1,151 @@
+// src/repositories/queueStore.ts
+// Contrato do armazenamento da fila (MySQL ou memória)
+
+import { config } from "../config/config";
+import {
+  DeadLetterFilters,
+  DeadLetterGroup,
+  QueueItemFilters,
+} from "../types/queue.types";
+import { waQueueRepository } from "./waQueueRepository";
+import { memoryQueueStore } from "./memoryQueueStore";
+
+export type QueueItemStatus = "Aguardando" | "Enviada" | "Cancelada" | "Erro";
+
+export interface EnqueueData {
+  schedule_id: number;
+  owner_id: number;
+  user_id: number;
+  template_id: number;
+  send_at?: Date | null;
+  priority?: number;
+  exempt_limits?: boolean; // Definido apenas internamente (respostas de conversa)
+  idempotency_key?: string | null;
+  schedule_dates?: Date | null;
+  schedule_times?: string | null;
+}
+
+export interface QueueItem {
+  id: number;
+  schedule_id: number;
+  owner_id: number;
+  user_id: number;
+  template_id: number;
+  status: QueueItemStatus;
+  created_at: Date;
+  send_at?: Date | null;
+  sent_at?: Date;
+  channel?: string | null; // Canal que entregou a mensagem
+  priority: number;
+  exempt_limits?: boolean | number; // MySQL devolve 0/1
+  idempotency_key?: string | null;
+  schedule_dates?: Date | null;
+  schedule_times?: string | null;
+  schedule_changed_at?: Date | null;
+  attempts: number;
+  last_error_code?: string | null;
+  last_error_message?: string | null;
+  next_retry_at?: Date | null;
+  locked_by?: string | null;
+  locked_until?: Date | null;
+}
+
+// Linha da listagem administrativa (JOIN com agendamento, paciente e template)
+export interface QueueListRow extends QueueItem {
+  template_type: string | null;
+  template_content: string | null;
+  patients_name: string | null;
+  patients_dateb: Date | null;
+  parent_name: string | null;
+  dates: Date | null;
+  times: string | null;
+  procedures: string | null;
+  partner: number | null;
+  price: string | null;
+  sedation: boolean | null;
+  surgery: boolean | null;
+  laboratory: boolean | null;
+}
+
+export interface AttemptFailureData {
+  attempt: number;
+  errorCode: string;
+  errorMessage: string;
+  nextRetryAt: Date | null;
+}
+
+export interface QueueStatusCount {
+  status: QueueItemStatus;
+  total: number;
+}
+
+/**
+ * Operações da fila usadas pelo QueueService
+ * Métodos que retornam boolean/number indicam quantos itens foram afetados
+ * (ex: false se o item não estava no status esperado).
+ */
+export interface QueueStore {
+  // Inclusão e consulta
+  enqueue(data: EnqueueData): Promise<number>;
+  getById(queueId: number): Promise<QueueItem | null>;
+  getByIds(queueIds: number[]): Promise<QueueItem[]>;
+  findByIdempotencyKey(
+    ownerId: number,
+    idempotencyKey: string
+  ): Promise<QueueItem | null>;
+  findDuplicate(
+    scheduleId: number,
+    templateId: number,
+    sentSince: Date
+  ): Promise<QueueItem | null>;
+  getPendingBySchedule(
+    scheduleId: number
+  ): Promise<(QueueItem & { template_type: string | null })[]>;
+  getAvailable(
+    queueId: number,
+    now: Date,
+    dueAt: Date | null
+  ): Promise<QueueItem | null>;
+  getPending(limit: number): Promise<QueueItem[]>;
+  list(filters: QueueItemFilters): Promise<QueueListRow[]>;
+  countByStatusSince(since: Date): Promise<QueueStatusCount[]>;
+  countPendingByTemplate(templateId: number): Promise<number>;
+  getDeadLetterSummary(filters: DeadLetterFilters): Promise<DeadLetterGroup[]>;
+  findDeadLetterIds(filters: DeadLetterFilters, limit: number): Promise<number[]>;
+
+  // Processamento
+  claim(queueId: number): Promise<boolean>;
+  releaseExpiredLeases(): Promise<number>;
+  // false = lease desta instância expirou e outra réplica reservou o item
+  markSent(queueId: number, attempt: number, channel: string): Promise<boolean>;
+  markFailed(queueId: number, data: AttemptFailureData): Promise<boolean>;
+  updateStatus(queueId: number, status: QueueItemStatus): Promise<void>;
+
+  // Alterações administrativas
+  resetForRetry(queueId: number): Promise<boolean>;
+  requeueMany(queueIds: number[]): Promise<QueueItem[]>;
+  reschedule(queueId: number, sendAt: Date | null): Promise<boolean>;
+  rescheduleMany(queueIds: number[], sendAt: Date | null): Promise<number>;
+  cancelMany(queueIds: number[]): Promise<number>;
+  cancelBySchedule(scheduleId: number): Promise<number>;
+  cancelWithReason(
+    queueId: number,
+    errorCode: string,
+    errorMessage: string
+  ): Promise<boolean>;
+  applyScheduleChange(
+    queueId: number,
+    scheduleDates: Date,
+    scheduleTimes: string | null,
+    sendAt: Date | null
+  ): Promise<boolean>;
+}
+
+/**
+ * Backend da fila conforme QUEUE_STORE
+ */
+export const createQueueStore = (
+  backend: "mysql" | "memory" = config.queueStore
+): QueueStore => (backend === "memory" ? memoryQueueStore : waQueueRepository);
+
+export const queueStore: QueueStore = createQueueStore();
@@ -0,0 +1,38 @@
+// src/repositories/scheduleRepository.test.ts
+
+import { scheduleRepository } from "./scheduleRepository";
+import { prisma } from "../config/database";
+import { config } from "../config/config";
+
+jest.mock("../config/database", () => ({
+  prisma: {
+    $queryRaw: jest.fn(async () => [{ id: 7, name: "Dra. Ana" }]),
+  },
+}));
+
+describe("ScheduleRepository.getProfessionalNames", () => {
+  const original = config.partnerTable;
+
+  afterEach(() => {
+    config.partnerTable = original;
+    jest.clearAllMocks();
+  });
+
+  it("não consulta o banco sem PARTNER_TABLE", async () => {
+    config.partnerTable = undefined;
+
+    const names = await scheduleRepository.getProfessionalNames([7]);
+
+    expect(names.size).toBe(0);
+    expect(prisma.$queryRaw).not.toHaveBeenCalled();
+  });
+
+  it("busca os nomes na tabela configurada", async () => {
+    config.partnerTable = "of_partners";
+
+    const names = await scheduleRepository.getProfessionalNames([7]);
+
+    expect(names.get(7)).toBe("Dra. Ana");
+    expect(prisma.$queryRaw).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,7 +1,9 @@
 // src/repositories/scheduleRepository.ts
 // Repository para gerenciar agendamentos
 
+import { Prisma } from "@prisma/client";
 import { prisma } from "../config/database";
+import { config } from "../config/config";
 import { logger } from "../utils/logger";
 
 export interface ScheduleData {
@@ -15,6 +17,14 @@ export interface ScheduleData {
   whatsConf: boolean;
 }
 
+export interface ScheduleFilters {
+  ownerId?: number;
+  dateFrom: string; // YYYY-MM-DD
+  dateTo: string; // YYYY-MM-DD
+  partner?: number;
+  sts?: number[];
+}
+
 export class ScheduleRepository {
   /**
    * Busca agendamento por ID
@@ -41,6 +51,73 @@ export class ScheduleRepository {
     }
   }
 
+  /**
+   * Busca IDs de agendamentos por período (e opcionalmente owner, parceiro e status)
+   */
+  async findIds(filters: ScheduleFilters, limit: number): Promise<number[]> {
+    const conditions: Prisma.Sql[] = [
+      Prisma.sql`dates >= ${filters.dateFrom}`,
+      Prisma.sql`dates <= ${filters.dateTo}`,
+      Prisma.sql`patient IS NOT NULL`,
+    ];
+
+    if (filters.ownerId !== undefined) {
+      conditions.push(Prisma.sql`owner = ${filters.ownerId}`);
+    }
+    if (filters.partner !== undefined) {
+      conditions.push(Prisma.sql`partner = ${filters.partner}`);
+    }
+    if (filters.sts && filters.sts.length > 0) {
+      conditions.push(Prisma.sql`sts IN (${Prisma.join(filters.sts)})`);
+    }
+
+    try {
+      const rows = await prisma.$queryRaw<{ id: number }[]>`
+        SELECT id
+        FROM of_schedules
+        WHERE ${Prisma.join(conditions, " AND ")}
+        ORDER BY dates ASC, times ASC
+        LIMIT ${limit}
+      `;
+
+      return rows.map((row) => Number(row.id));
+    } catch (error) {
+      logger.error("Erro ao buscar agendamentos", error, { ...filters });
+      throw error;
+    }
+  }
+
+  /**
+   * Nomes dos profissionais (of_schedules.partner) por ID
+   * Tabela e coluna configuráveis (PARTNER_TABLE / PARTNER_NAME_COLUMN);
+   * sem PARTNER_TABLE ou em caso de erro retorna vazio e os templates
+   * ficam sem {profissional}.
+   */
+  async getProfessionalNames(partnerIds: number[]): Promise<Map<number, string>> {
+    const names = new Map<number, string>();
+    if (partnerIds.length === 0 || !config.partnerTable) return names;
+
+    try {
+      const rows = await prisma.$queryRaw<{ id: number; name: string | null }[]>`
+        SELECT id, ${Prisma.raw(config.partnerNameColumn)} AS name
+        FROM ${Prisma.raw(config.partnerTable)}
+        WHERE id IN (${Prisma.join(partnerIds)})
+      `;
+
+      for (const row of rows) {
+        if (row.name) names.set(Number(row.id), row.name);
+      }
+    } catch (error) {
+      logger.warn("Não foi possível buscar profissionais", {
+        partnerIds,
+        table: config.partnerTable,
+        error: (error as Error).message,
+      });
+    }
+
+    return names;
+  }
+
   /**
    * Atualiza status do agendamento
    */
@@ -1,8 +1,10 @@
 // src/repositories/waMessageRepository.ts
 // CORRIGIR interface para incluir campos do JOIN
 
+import { Prisma } from "@prisma/client";
 import { prisma } from "../config/database";
 import { logger } from "../utils/logger";
+import { DeliveryStatus } from "../types/queue.types";
 
 export interface LogMessageData {
   schedule_id: number;
@@ -11,7 +13,12 @@ export interface LogMessageData {
   template_id?: number;
   direction: "sent" | "received";
   message: string;
-  status: "Enviada" | "Recebida" | "Erro";
+  status: "Enviada" | "Recebida" | "Erro" | "Reenfileirada";
+  queue_id?: number;
+  attempt?: number;
+  error_code?: string;
+  error_message?: string;
+  external_id?: string;
 }
 
 // INTERFACE CORRIGIDA - incluindo campos do JOIN com pacientes
@@ -23,8 +30,12 @@ export interface WaMessageResult {
   template_id?: number;
   direction: "sent" | "received";
   message: string;
-  status?: "Enviada" | "Recebida" | "Erro";
+  status?: "Enviada" | "Recebida" | "Erro" | "Reenfileirada";
   created_at: Date;
+  external_id?: string | null;
+  delivery_status?: DeliveryStatus | null;
+  delivered_at?: Date | null;
+  read_at?: Date | null;
   template_type?: string; // Do JOIN com wa_templates
   // CAMPOS ADICIONADOS do JOIN com all_patients
   tel1?: string;
@@ -41,8 +52,11 @@ export interface WaMessageBasic {
   template_id?: number;
   direction: "sent" | "received";
   message: string;
-  status?: "Enviada" | "Recebida" | "Erro";
+  status?: "Enviada" | "Recebida" | "Erro" | "Reenfileirada";
   created_at: Date;
+  delivery_status?: DeliveryStatus | null;
+  delivered_at?: Date | null;
+  read_at?: Date | null;
   template_type?: string;
 }
 
@@ -97,6 +111,7 @@ export class WaMessageRepository {
         INNER JOIN all_patients p ON s.patient = p.id
         WHERE m.owner = ${Number(ownerId)}
         AND m.direction = 'sent'
+        AND (m.status IS NULL OR m.status <> 'Reenfileirada')
         AND m.created_at >= DATE_SUB(NOW(), INTERVAL 48 HOUR)
         ORDER BY m.created_at DESC
         LIMIT 20
@@ -188,7 +203,9 @@ export class WaMessageRepository {
       await prisma.$executeRaw`
         INSERT INTO wa_messages (
           schedule_id, owner, user_id, template_id, 
-          direction, message, status, created_at
+          direction, message, status, created_at,
+          queue_id, attempt, error_code, error_message,
+          external_id, delivery_status
         )
         VALUES (
           ${data.schedule_id}, 
@@ -198,7 +215,13 @@ export class WaMessageRepository {
           ${data.direction}, 
           ${data.message}, 
           ${data.status}, 
-          NOW()
+          NOW(),
+          ${data.queue_id ?? null},
+          ${data.attempt ?? null},
+          ${data.error_code ?? null},
+          ${data.error_message ?? null},
+          ${data.external_id ?? null},
+          ${data.external_id ? DeliveryStatus.ENVIADA : null}
         )
       `;
 
@@ -231,6 +254,9 @@ export class WaMessageRepository {
           m.message,
           m.status,
           m.created_at,
+          m.delivery_status,
+          m.delivered_at,
+          m.read_at,
           t.type as template_type
         FROM wa_messages m
         LEFT JOIN wa_templates t ON m.template_id = t.id
@@ -375,6 +401,98 @@ export class WaMessageRepository {
     }
   }
 
+  /**
+   * Conta mensagens enviadas com sucesso pelo WhatsApp desde a data informada
+   * (limite diário do número; e-mail e SMS não contam)
+   */
+  async countSentSince(ownerId: number, since: Date): Promise<number> {
+    try {
+      const result = await prisma.$queryRaw<{ total: bigint }[]>`
+        SELECT COUNT(*) AS total
+        FROM wa_messages
+        WHERE owner = ${ownerId}
+        AND direction = 'sent'
+        AND status = 'Enviada'
+        AND channel = 'whatsapp'
+        AND created_at >= ${since}
+      `;
+
+      return Number(result[0]?.total ?? 0);
+    } catch (error) {
+      logger.error("Erro ao contar mensagens enviadas", error, { ownerId });
+      throw error;
+    }
+  }
+
+  /**
+   * Atualiza a confirmação de entrega pelo ID da mensagem na Evolution
+   * O status só avança (Enviada → Entregue → Lida); Erro só vale antes da entrega.
+   * @returns Quantidade de mensagens atualizadas
+   */
+  async updateDeliveryStatus(
+    ownerId: number,
+    externalId: string,
+    status: DeliveryStatus,
+    at: Date
+  ): Promise<number> {
+    const previous: Record<DeliveryStatus, DeliveryStatus[]> = {
+      [DeliveryStatus.ENVIADA]: [],
+      [DeliveryStatus.ENTREGUE]: [DeliveryStatus.ENVIADA, DeliveryStatus.ERRO],
+      [DeliveryStatus.LIDA]: [
+        DeliveryStatus.ENVIADA,
+        DeliveryStatus.ENTREGUE,
+        DeliveryStatus.ERRO,
+      ],
+      [DeliveryStatus.ERRO]: [DeliveryStatus.ENVIADA],
+    };
+
+    const allowed =
+      previous[status].length > 0
+        ? Prisma.sql`(delivery_status IS NULL OR delivery_status IN (${Prisma.join(
+            previous[status]
+          )}))`
+        : Prisma.sql`delivery_status IS NULL`;
+
+    const delivered =
+      status === DeliveryStatus.ENTREGUE || status === DeliveryStatus.LIDA;
+    const deliveredAt = delivered
+      ? Prisma.sql`COALESCE(delivered_at, ${at})`
+      : Prisma.sql`delivered_at`;
+    const readAt =
+      status === DeliveryStatus.LIDA
+        ? Prisma.sql`COALESCE(read_at, ${at})`
+        : Prisma.sql`read_at`;
+
+    try {
+      const affected = await prisma.$executeRaw`
+        UPDATE wa_messages
+        SET delivery_status = ${status},
+            delivered_at = ${deliveredAt},
+            read_at = ${readAt}
+        WHERE owner = ${ownerId}
+        AND external_id = ${externalId}
+        AND direction = 'sent'
+        AND ${allowed}
+      `;
+
+      logger.debug("Confirmação de entrega atualizada", {
+        ownerId,
+        externalId,
+        status,
+        affected,
+      });
+
+      return affected;
+    } catch (error) {
+      logger.error("Erro ao atualizar confirmação de entrega", error, {
+        ownerId,
+        externalId,
+        status,
+      });
+      throw error;
+    }
+  }
+
   /**
    * MÉTODO ADICIONAL: Buscar mensagens com dados do paciente
    */
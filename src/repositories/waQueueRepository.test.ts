@@ -0,0 +1,43 @@
+// src/repositories/waQueueRepository.test.ts
+
+import { waQueueRepository } from "./waQueueRepository";
+import { prisma } from "../config/database";
+
+jest.mock("../config/database", () => ({
+  prisma: { $queryRaw: jest.fn() },
+}));
+
+const queryRaw = prisma.$queryRaw as unknown as jest.Mock;
+
+describe("WaQueueRepository", () => {
+  beforeEach(() => {
+    queryRaw.mockReset();
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("retorna null apenas quando o item não existe", async () => {
+    queryRaw.mockResolvedValueOnce([]);
+
+    expect(await waQueueRepository.getById(1)).toBeNull();
+  });
+
+  it("repassa erro de banco na busca por ID", async () => {
+    queryRaw.mockRejectedValueOnce(new Error("Connection lost"));
+
+    await expect(waQueueRepository.getById(1)).rejects.toThrow(
+      "Connection lost"
+    );
+  });
+
+  it("repassa erro de banco na busca por IDs", async () => {
+    queryRaw.mockRejectedValueOnce(new Error("Connection lost"));
+
+    await expect(waQueueRepository.getByIds([1, 2])).rejects.toThrow(
+      "Connection lost"
+    );
+  });
+});
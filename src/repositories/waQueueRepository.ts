@@ -1,74 +1,536 @@
 // src/repositories/waQueueRepository.ts
 // Repository para gerenciar fila de mensagens - CORRIGIDO
+// Implementação MySQL do QueueStore
 
+import { Prisma } from "@prisma/client";
 import { prisma } from "../config/database";
 import { logger } from "../utils/logger";
+import { config } from "../config/config";
+import {
+  DeadLetterFilters,
+  DeadLetterGroup,
+  QueueItemFilters,
+  QueuePriority,
+} from "../types/queue.types";
+import type {
+  AttemptFailureData,
+  EnqueueData,
+  QueueItem,
+  QueueItemStatus,
+  QueueListRow,
+  QueueStatusCount,
+  QueueStore,
+} from "./queueStore";
 
-export interface EnqueueData {
-  schedule_id: number;
-  owner_id: number;
-  user_id: number;
-  template_id: number;
-}
+export class WaQueueRepository implements QueueStore {
+  /**
+   * Adiciona item na fila - CORRIGIDO para usar raw SQL
+   * @returns ID do item criado
+   */
+  async enqueue(data: EnqueueData): Promise<number> {
+    try {
+      // Mesma conexão para o INSERT e o LAST_INSERT_ID()
+      const queueId = await prisma.$transaction(async (tx) => {
+        await tx.$executeRaw`
+          INSERT INTO wa_queue (
+            schedule_id, owner_id, user_id, template_id, 
+            status, send_at, priority, exempt_limits, idempotency_key,
+            schedule_dates, schedule_times, created_at
+          )
+          VALUES (
+            ${data.schedule_id}, 
+            ${data.owner_id}, 
+            ${data.user_id}, 
+            ${data.template_id},
+            'Aguardando', 
+            ${data.send_at ?? null},
+            ${data.priority ?? QueuePriority.REMINDER},
+            ${data.exempt_limits ?? false},
+            ${data.idempotency_key ?? null},
+            ${data.schedule_dates ?? null},
+            ${data.schedule_times ?? null},
+            NOW()
+          )
+        `;
 
-export interface QueueItem {
-  id: number;
-  schedule_id: number;
-  owner_id: number;
-  user_id: number;
-  template_id: number;
-  status: "Aguardando" | "Enviada" | "Cancelada" | "Erro";
-  created_at: Date;
-  sent_at?: Date;
-}
+        const rows = await tx.$queryRaw<{ id: bigint }[]>`
+          SELECT LAST_INSERT_ID() AS id
+        `;
+
+        return Number(rows[0].id);
+      });
+
+      logger.debug("Item adicionado à fila", { queueId, ...data });
+
+      return queueId;
+    } catch (error) {
+      logger.error("Erro ao adicionar item à fila", error, data);
+      throw error;
+    }
+  }
 
-export class WaQueueRepository {
   /**
-   * Adiciona item na fila - CORRIGIDO para usar raw SQL
+   * Busca item da fila por ID
    */
-  async enqueue(data: EnqueueData): Promise<void> {
+  async getById(queueId: number): Promise<QueueItem | null> {
     try {
-      await prisma.$executeRaw`
-        INSERT INTO wa_queue (
-          schedule_id, owner_id, user_id, template_id, 
-          status, created_at
-        )
-        VALUES (
-          ${data.schedule_id}, 
-          ${data.owner_id}, 
-          ${data.user_id}, 
-          ${data.template_id},
-          'Aguardando', 
-          NOW()
+      const items = await prisma.$queryRaw<QueueItem[]>`
+        SELECT 
+          id, schedule_id, owner_id, user_id, template_id,
+          status, priority, created_at, send_at, sent_at, channel,
+          attempts, last_error_code, last_error_message, next_retry_at,
+          locked_by, locked_until
+        FROM wa_queue
+        WHERE id = ${queueId}
+        LIMIT 1
+      `;
+
+      return items[0] ?? null;
+    } catch (error) {
+      logger.error("Erro ao buscar item da fila", error, { queueId });
+      throw error;
+    }
+  }
+
+  /**
+   * Busca item criado com a mesma Idempotency-Key
+   */
+  async findByIdempotencyKey(
+    ownerId: number,
+    idempotencyKey: string
+  ): Promise<QueueItem | null> {
+    try {
+      const items = await prisma.$queryRaw<QueueItem[]>`
+        SELECT 
+          id, schedule_id, owner_id, user_id, template_id,
+          status, priority, created_at, send_at, sent_at
+        FROM wa_queue
+        WHERE owner_id = ${ownerId}
+        AND idempotency_key = ${idempotencyKey}
+        LIMIT 1
+      `;
+
+      return items[0] ?? null;
+    } catch (error) {
+      logger.error("Erro ao buscar item por Idempotency-Key", error, {
+        ownerId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Busca item equivalente (mesmo agendamento e template) ainda pendente
+   * ou enviado a partir de sentSince
+   */
+  async findDuplicate(
+    scheduleId: number,
+    templateId: number,
+    sentSince: Date
+  ): Promise<QueueItem | null> {
+    try {
+      const items = await prisma.$queryRaw<QueueItem[]>`
+        SELECT 
+          id, schedule_id, owner_id, user_id, template_id,
+          status, priority, created_at, send_at, sent_at
+        FROM wa_queue
+        WHERE schedule_id = ${scheduleId}
+        AND template_id = ${templateId}
+        AND (
+          status = 'Aguardando'
+          OR (status = 'Enviada' AND sent_at >= ${sentSince})
         )
+        ORDER BY id DESC
+        LIMIT 1
       `;
 
-      logger.debug("Item adicionado à fila", data);
+      return items[0] ?? null;
     } catch (error) {
-      logger.error("Erro ao adicionar item à fila", error, data);
+      logger.error("Erro ao buscar item duplicado", error, {
+        scheduleId,
+        templateId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Itens aguardando envio de um agendamento (com tipo do template)
+   */
+  async getPendingBySchedule(
+    scheduleId: number
+  ): Promise<(QueueItem & { template_type: string | null })[]> {
+    try {
+      return await prisma.$queryRaw<
+        (QueueItem & { template_type: string | null })[]
+      >`
+        SELECT 
+          q.id, q.schedule_id, q.owner_id, q.user_id, q.template_id,
+          q.status, q.priority, q.created_at, q.send_at, q.sent_at,
+          q.schedule_dates, q.schedule_times, q.schedule_changed_at,
+          t.type AS template_type
+        FROM wa_queue q
+        LEFT JOIN wa_templates t ON t.id = q.template_id
+        WHERE q.schedule_id = ${scheduleId}
+        AND q.status = 'Aguardando'
+        ORDER BY q.id ASC
+      `;
+    } catch (error) {
+      logger.error("Erro ao buscar itens pendentes do agendamento", error, {
+        scheduleId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Busca itens por IDs
+   */
+  async getByIds(queueIds: number[]): Promise<QueueItem[]> {
+    if (queueIds.length === 0) return [];
+
+    try {
+      return await prisma.$queryRaw<QueueItem[]>`
+        SELECT 
+          id, schedule_id, owner_id, user_id, template_id,
+          status, priority, created_at, send_at, sent_at, channel,
+          attempts, last_error_code, last_error_message, next_retry_at,
+          locked_by, locked_until
+        FROM wa_queue
+        WHERE id IN (${Prisma.join(queueIds)})
+      `;
+    } catch (error) {
+      logger.error("Erro ao buscar itens da fila", error, { queueIds });
+      throw error;
+    }
+  }
+
+  /**
+   * Lista itens com filtros e paginação por cursor (mais recentes primeiro)
+   */
+  async list(filters: QueueItemFilters): Promise<QueueListRow[]> {
+    const conditions: Prisma.Sql[] = [Prisma.sql`1 = 1`];
+
+    if (filters.ownerId !== undefined) {
+      conditions.push(Prisma.sql`q.owner_id = ${filters.ownerId}`);
+    }
+    if (filters.status) {
+      conditions.push(Prisma.sql`q.status = ${filters.status}`);
+    }
+    if (filters.templateType) {
+      conditions.push(Prisma.sql`t.type = ${filters.templateType}`);
+    }
+    if (filters.scheduleId !== undefined) {
+      conditions.push(Prisma.sql`q.schedule_id = ${filters.scheduleId}`);
+    }
+    if (filters.from) {
+      conditions.push(
+        Prisma.sql`COALESCE(q.send_at, q.created_at) >= ${filters.from}`
+      );
+    }
+    if (filters.to) {
+      conditions.push(
+        Prisma.sql`COALESCE(q.send_at, q.created_at) <= ${filters.to}`
+      );
+    }
+    if (filters.cursor !== undefined) {
+      conditions.push(Prisma.sql`q.id < ${filters.cursor}`);
+    }
+
+    try {
+      return await prisma.$queryRaw<QueueListRow[]>`
+        SELECT 
+          q.id, q.schedule_id, q.owner_id, q.user_id, q.template_id,
+          q.status, q.priority, q.created_at, q.send_at, q.sent_at, q.channel,
+          q.attempts, q.last_error_code, q.last_error_message, q.next_retry_at,
+          t.type AS template_type, t.content AS template_content,
+          p.patients_name, p.patients_dateb, p.parent_name,
+          s.dates, s.times, s.procedures, s.partner, s.price,
+          s.sedation, s.surgery, s.laboratory
+        FROM wa_queue q
+        LEFT JOIN wa_templates t ON t.id = q.template_id
+        LEFT JOIN of_schedules s ON s.id = q.schedule_id
+        LEFT JOIN all_patients p ON p.id = s.patient
+        WHERE ${Prisma.join(conditions, " AND ")}
+        ORDER BY q.id DESC
+        LIMIT ${filters.limit}
+      `;
+    } catch (error) {
+      logger.error("Erro ao listar itens da fila", error, { ...filters });
+      throw error;
+    }
+  }
+
+  /**
+   * Cancela itens aguardando envio
+   * @returns Quantidade de itens cancelados
+   */
+  async cancelMany(queueIds: number[]): Promise<number> {
+    if (queueIds.length === 0) return 0;
+
+    try {
+      const affected = await prisma.$executeRaw`
+        UPDATE wa_queue 
+        SET status = 'Cancelada', locked_by = NULL, locked_until = NULL
+        WHERE id IN (${Prisma.join(queueIds)})
+        AND status = 'Aguardando'
+      `;
+
+      logger.debug("Itens da fila cancelados", { queueIds, affected });
+
+      return affected;
+    } catch (error) {
+      logger.error("Erro ao cancelar itens da fila", error, { queueIds });
+      throw error;
+    }
+  }
+
+  /**
+   * Devolve itens com Erro para a fila zerando as tentativas
+   * @returns Itens efetivamente devolvidos (estado anterior)
+   */
+  async requeueMany(queueIds: number[]): Promise<QueueItem[]> {
+    if (queueIds.length === 0) return [];
+
+    try {
+      const requeued = await prisma.$transaction(async (tx) => {
+        // Travar as linhas para registrar exatamente o que foi devolvido
+        const items = await tx.$queryRaw<QueueItem[]>`
+          SELECT 
+            id, schedule_id, owner_id, user_id, template_id,
+            status, priority, created_at, send_at, sent_at,
+            attempts, last_error_code, last_error_message, next_retry_at
+          FROM wa_queue
+          WHERE id IN (${Prisma.join(queueIds)})
+          AND status = 'Erro'
+          FOR UPDATE
+        `;
+
+        if (items.length === 0) return items;
+
+        await tx.$executeRaw`
+          UPDATE wa_queue 
+          SET status = 'Aguardando',
+              attempts = 0,
+              next_retry_at = NULL,
+              locked_by = NULL,
+              locked_until = NULL
+          WHERE id IN (${Prisma.join(items.map((item) => item.id))})
+        `;
+
+        return items;
+      });
+
+      logger.debug("Itens devolvidos para a fila", {
+        queueIds,
+        requeued: requeued.length,
+      });
+
+      return requeued;
+    } catch (error) {
+      logger.error("Erro ao devolver itens para a fila", error, { queueIds });
       throw error;
     }
   }
 
   /**
-   * Busca itens aguardando processamento
+   * Resumo dos itens com falha definitiva agrupados pelo motivo
+   */
+  async getDeadLetterSummary(
+    filters: DeadLetterFilters
+  ): Promise<DeadLetterGroup[]> {
+    try {
+      const rows = await prisma.$queryRaw<any[]>`
+        SELECT 
+          q.last_error_code AS error_code,
+          COUNT(*) AS total,
+          MIN(q.created_at) AS oldest_created_at,
+          MAX(q.created_at) AS newest_created_at,
+          MAX(q.last_error_message) AS sample_message
+        FROM wa_queue q
+        LEFT JOIN wa_templates t ON t.id = q.template_id
+        WHERE ${Prisma.join(this.deadLetterConditions(filters), " AND ")}
+        GROUP BY q.last_error_code
+        ORDER BY total DESC
+      `;
+
+      return rows.map((row) => ({
+        errorCode: row.error_code,
+        total: Number(row.total),
+        oldestCreatedAt: row.oldest_created_at,
+        newestCreatedAt: row.newest_created_at,
+        sampleMessage: row.sample_message,
+      }));
+    } catch (error) {
+      logger.error("Erro ao buscar resumo de falhas da fila", error, {
+        ...filters,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * IDs dos itens com falha definitiva que atendem ao filtro
+   */
+  async findDeadLetterIds(
+    filters: DeadLetterFilters,
+    limit: number
+  ): Promise<number[]> {
+    try {
+      const rows = await prisma.$queryRaw<{ id: number }[]>`
+        SELECT q.id
+        FROM wa_queue q
+        LEFT JOIN wa_templates t ON t.id = q.template_id
+        WHERE ${Prisma.join(this.deadLetterConditions(filters), " AND ")}
+        ORDER BY q.id ASC
+        LIMIT ${limit}
+      `;
+
+      return rows.map((row) => Number(row.id));
+    } catch (error) {
+      logger.error("Erro ao buscar itens com falha", error, { ...filters });
+      throw error;
+    }
+  }
+
+  /**
+   * Reagenda itens aguardando envio
+   * @returns Quantidade de itens reagendados
+   */
+  async rescheduleMany(
+    queueIds: number[],
+    sendAt: Date | null
+  ): Promise<number> {
+    if (queueIds.length === 0) return 0;
+
+    try {
+      const affected = await prisma.$executeRaw`
+        UPDATE wa_queue 
+        SET send_at = ${sendAt}
+        WHERE id IN (${Prisma.join(queueIds)})
+        AND status = 'Aguardando'
+      `;
+
+      logger.debug("Itens da fila reagendados", { queueIds, sendAt, affected });
+
+      return affected;
+    } catch (error) {
+      logger.error("Erro ao reagendar itens da fila", error, {
+        queueIds,
+        sendAt,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Busca itens aguardando processamento (apenas os já liberados para envio)
+   * Intercala tenants (owner_rank) para que um tenant com muitos itens
+   * não ocupe o lote inteiro.
    */
   async getPending(limit: number = 10): Promise<QueueItem[]> {
+    const now = new Date();
+
     try {
       const items = await prisma.$queryRaw<QueueItem[]>`
         SELECT 
           id, schedule_id, owner_id, user_id, template_id,
-          status, created_at, sent_at
-        FROM wa_queue
-        WHERE status = 'Aguardando'
-        ORDER BY created_at ASC
+          status, priority, created_at, send_at, sent_at, channel,
+          attempts, last_error_code, last_error_message, next_retry_at,
+          locked_by, locked_until
+        FROM (
+          SELECT *,
+            ROW_NUMBER() OVER (
+              PARTITION BY owner_id
+              ORDER BY priority DESC, COALESCE(send_at, created_at) ASC
+            ) AS owner_rank
+          FROM wa_queue
+          WHERE status = 'Aguardando'
+          AND (send_at IS NULL OR send_at <= ${now})
+          AND (next_retry_at IS NULL OR next_retry_at <= ${now})
+          AND (locked_until IS NULL OR locked_until <= ${now})
+        ) ranked
+        ORDER BY owner_rank ASC, priority DESC, COALESCE(send_at, created_at) ASC
         LIMIT ${limit}
       `;
 
       return items;
     } catch (error) {
       logger.error("Erro ao buscar itens pendentes", error);
-      return [];
+      throw error;
+    }
+  }
+
+  /**
+   * Busca item se estiver disponível para envio agora
+   * @param dueAt null ignora send_at/next_retry_at (envio manual)
+   */
+  async getAvailable(
+    queueId: number,
+    now: Date,
+    dueAt: Date | null
+  ): Promise<QueueItem | null> {
+    try {
+      const items = await prisma.$queryRaw<QueueItem[]>`
+        SELECT *
+        FROM wa_queue
+        WHERE id = ${queueId}
+        AND status = 'Aguardando'
+        AND (${dueAt} IS NULL OR send_at IS NULL OR send_at <= ${dueAt})
+        AND (${dueAt} IS NULL OR next_retry_at IS NULL OR next_retry_at <= ${dueAt})
+        AND (locked_until IS NULL OR locked_until <= ${now})
+        LIMIT 1
+      `;
+
+      return items[0] ?? null;
+    } catch (error) {
+      logger.error("Erro ao buscar item disponível da fila", error, {
+        queueId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Total de itens por status criados a partir de `since`
+   */
+  async countByStatusSince(since: Date): Promise<QueueStatusCount[]> {
+    try {
+      const rows = await prisma.$queryRaw<any[]>`
+        SELECT status, COUNT(*) AS total
+        FROM wa_queue
+        WHERE created_at >= ${since}
+        GROUP BY status
+      `;
+
+      return rows.map((row) => ({
+        status: row.status,
+        total: Number(row.total),
+      }));
+    } catch (error) {
+      logger.error("Erro ao contar itens da fila por status", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Conta itens aguardando envio que usam o template
+   */
+  async countPendingByTemplate(templateId: number): Promise<number> {
+    try {
+      const rows = await prisma.$queryRaw<{ total: bigint }[]>`
+        SELECT COUNT(*) AS total
+        FROM wa_queue
+        WHERE template_id = ${templateId}
+        AND status = 'Aguardando'
+      `;
+
+      return Number(rows[0]?.total ?? 0);
+    } catch (error) {
+      logger.error("Erro ao contar itens pendentes do template", error, {
+        templateId,
+      });
+      throw error;
     }
   }
 
@@ -77,7 +539,7 @@ export class WaQueueRepository {
    */
   async updateStatus(
     queueId: number,
-    status: "Aguardando" | "Enviada" | "Cancelada" | "Erro"
+    status: QueueItemStatus
   ): Promise<void> {
     try {
       if (status === "Enviada") {
@@ -103,6 +565,325 @@ export class WaQueueRepository {
       throw error;
     }
   }
+
+  /**
+   * Reserva item para esta instância (lease atômico)
+   * Só reserva se estiver Aguardando e sem lease ativo de outra réplica.
+   * @returns false se outra instância já reservou
+   */
+  async claim(queueId: number): Promise<boolean> {
+    const now = new Date();
+    const lockedUntil = new Date(
+      now.getTime() + config.queueLeaseDuration * 1000
+    );
+
+    try {
+      const affected = await prisma.$executeRaw`
+        UPDATE wa_queue 
+        SET locked_by = ${config.queueWorkerId},
+            locked_until = ${lockedUntil}
+        WHERE id = ${queueId}
+        AND status = 'Aguardando'
+        AND (locked_until IS NULL OR locked_until <= ${now})
+      `;
+
+      logger.debug("Reserva de item da fila", {
+        queueId,
+        workerId: config.queueWorkerId,
+        claimed: affected > 0,
+      });
+
+      return affected > 0;
+    } catch (error) {
+      logger.error("Erro ao reservar item da fila", error, { queueId });
+      throw error;
+    }
+  }
+
+  /**
+   * Libera leases expirados (réplica caiu durante o envio)
+   * @returns Quantidade de itens liberados
+   */
+  async releaseExpiredLeases(): Promise<number> {
+    try {
+      const affected = await prisma.$executeRaw`
+        UPDATE wa_queue 
+        SET locked_by = NULL, locked_until = NULL
+        WHERE status = 'Aguardando'
+        AND locked_until IS NOT NULL
+        AND locked_until <= ${new Date()}
+      `;
+
+      if (affected > 0) {
+        logger.warn("Leases expirados liberados na fila", { affected });
+      }
+
+      return affected;
+    } catch (error) {
+      logger.error("Erro ao liberar leases expirados", error);
+      return 0;
+    }
+  }
+
+  /**
+   * Marca item como enviado registrando a tentativa
+   * Só grava se o lease ainda for desta instância.
+   * @returns false se o lease expirou e outra instância reservou o item
+   */
+  async markSent(
+    queueId: number,
+    attempt: number,
+    channel: string
+  ): Promise<boolean> {
+    try {
+      const affected = await prisma.$executeRaw`
+        UPDATE wa_queue 
+        SET status = 'Enviada',
+            sent_at = NOW(),
+            channel = ${channel},
+            attempts = ${attempt},
+            next_retry_at = NULL,
+            locked_by = NULL,
+            locked_until = NULL
+        WHERE id = ${queueId}
+        AND locked_by = ${config.queueWorkerId}
+      `;
+
+      if (affected === 0) {
+        logger.warn("Lease perdido: envio não registrado na fila", {
+          queueId,
+          attempt,
+          channel,
+          workerId: config.queueWorkerId,
+        });
+        return false;
+      }
+
+      logger.debug("Item da fila enviado", { queueId, attempt, channel });
+      return true;
+    } catch (error) {
+      logger.error("Erro ao marcar item como enviado", error, {
+        queueId,
+        attempt,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Registra falha de tentativa
+   * Com nextRetryAt o item continua Aguardando; sem ele vai para Erro.
+   * Só grava se o lease ainda for desta instância.
+   * @returns false se o lease expirou e outra instância reservou o item
+   */
+  async markFailed(
+    queueId: number,
+    data: AttemptFailureData
+  ): Promise<boolean> {
+    const status = data.nextRetryAt ? "Aguardando" : "Erro";
+
+    try {
+      const affected = await prisma.$executeRaw`
+        UPDATE wa_queue 
+        SET status = ${status},
+            attempts = ${data.attempt},
+            last_error_code = ${data.errorCode},
+            last_error_message = ${data.errorMessage},
+            next_retry_at = ${data.nextRetryAt},
+            locked_by = NULL,
+            locked_until = NULL
+        WHERE id = ${queueId}
+        AND locked_by = ${config.queueWorkerId}
+      `;
+
+      if (affected === 0) {
+        logger.warn("Lease perdido: falha não registrada na fila", {
+          queueId,
+          workerId: config.queueWorkerId,
+          ...data,
+        });
+        return false;
+      }
+
+      logger.debug("Falha registrada na fila", { queueId, status, ...data });
+      return true;
+    } catch (error) {
+      logger.error("Erro ao registrar falha na fila", error, {
+        queueId,
+        ...data,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Devolve item com Erro para a fila (nova tentativa manual)
+   * @returns false se o item não estiver com Erro
+   */
+  async resetForRetry(queueId: number): Promise<boolean> {
+    try {
+      const affected = await prisma.$executeRaw`
+        UPDATE wa_queue 
+        SET status = 'Aguardando',
+            next_retry_at = NULL,
+            locked_by = NULL,
+            locked_until = NULL
+        WHERE id = ${queueId}
+        AND status = 'Erro'
+      `;
+
+      logger.debug("Item devolvido para a fila", { queueId, affected });
+
+      return affected > 0;
+    } catch (error) {
+      logger.error("Erro ao devolver item para a fila", error, { queueId });
+      throw error;
+    }
+  }
+
+  /**
+   * Cancela todos os itens aguardando envio de um agendamento
+   * @returns Quantidade de itens cancelados
+   */
+  async cancelBySchedule(scheduleId: number): Promise<number> {
+    try {
+      const affected = await prisma.$executeRaw`
+        UPDATE wa_queue 
+        SET status = 'Cancelada', locked_by = NULL, locked_until = NULL
+        WHERE schedule_id = ${scheduleId}
+        AND status = 'Aguardando'
+      `;
+
+      logger.debug("Itens do agendamento cancelados", { scheduleId, affected });
+
+      return affected;
+    } catch (error) {
+      logger.error("Erro ao cancelar itens do agendamento", error, {
+        scheduleId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Cancela item pendente registrando o motivo
+   * @returns false se o item não estiver aguardando
+   */
+  async cancelWithReason(
+    queueId: number,
+    errorCode: string,
+    errorMessage: string
+  ): Promise<boolean> {
+    try {
+      const affected = await prisma.$executeRaw`
+        UPDATE wa_queue 
+        SET status = 'Cancelada',
+            last_error_code = ${errorCode},
+            last_error_message = ${errorMessage},
+            locked_by = NULL,
+            locked_until = NULL
+        WHERE id = ${queueId}
+        AND status = 'Aguardando'
+      `;
+
+      logger.debug("Item da fila cancelado", { queueId, errorCode, affected });
+
+      return affected > 0;
+    } catch (error) {
+      logger.error("Erro ao cancelar item da fila", error, { queueId });
+      throw error;
+    }
+  }
+
+  /**
+   * Registra nova data/hora da consulta no item (e novo envio, se houver)
+   */
+  async applyScheduleChange(
+    queueId: number,
+    scheduleDates: Date,
+    scheduleTimes: string | null,
+    sendAt: Date | null
+  ): Promise<boolean> {
+    try {
+      const affected = await prisma.$executeRaw`
+        UPDATE wa_queue 
+        SET schedule_dates = ${scheduleDates},
+            schedule_times = ${scheduleTimes},
+            send_at = ${sendAt},
+            schedule_changed_at = NOW()
+        WHERE id = ${queueId}
+        AND status = 'Aguardando'
+      `;
+
+      logger.debug("Alteração do agendamento aplicada no item", {
+        queueId,
+        scheduleDates,
+        scheduleTimes,
+        sendAt,
+        affected,
+      });
+
+      return affected > 0;
+    } catch (error) {
+      logger.error("Erro ao aplicar alteração do agendamento", error, {
+        queueId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Reagenda envio de item pendente
+   * @returns false se o item não existir ou não estiver aguardando
+   */
+  async reschedule(queueId: number, sendAt: Date | null): Promise<boolean> {
+    try {
+      const affected = await prisma.$executeRaw`
+        UPDATE wa_queue 
+        SET send_at = ${sendAt}
+        WHERE id = ${queueId}
+        AND status = 'Aguardando'
+      `;
+
+      logger.debug("Envio reagendado", { queueId, sendAt, affected });
+
+      return affected > 0;
+    } catch (error) {
+      logger.error("Erro ao reagendar item da fila", error, {
+        queueId,
+        sendAt,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Condições SQL dos filtros de itens com falha definitiva
+   */
+  private deadLetterConditions(filters: DeadLetterFilters): Prisma.Sql[] {
+    const conditions: Prisma.Sql[] = [Prisma.sql`q.status = 'Erro'`];
+
+    if (filters.ownerId !== undefined) {
+      conditions.push(Prisma.sql`q.owner_id = ${filters.ownerId}`);
+    }
+    if (filters.errorCode) {
+      conditions.push(Prisma.sql`q.last_error_code = ${filters.errorCode}`);
+    }
+    if (filters.templateType) {
+      conditions.push(Prisma.sql`t.type = ${filters.templateType}`);
+    }
+    if (filters.scheduleId !== undefined) {
+      conditions.push(Prisma.sql`q.schedule_id = ${filters.scheduleId}`);
+    }
+    if (filters.from) {
+      conditions.push(Prisma.sql`q.created_at >= ${filters.from}`);
+    }
+    if (filters.to) {
+      conditions.push(Prisma.sql`q.created_at <= ${filters.to}`);
+    }
+
+    return conditions;
+  }
 }
 
 export const waQueueRepository = new WaQueueRepository();
@@ -0,0 +1,114 @@
+// src/repositories/waSettingsRepository.test.ts
+
+import { waSettingsRepository } from "./waSettingsRepository";
+import { prisma } from "../config/database";
+import { config } from "../config/config";
+
+jest.mock("../config/database", () => ({
+  prisma: {
+    $queryRaw: jest.fn(),
+    $executeRaw: jest.fn(async () => 1),
+  },
+}));
+
+const queryRaw = prisma.$queryRaw as unknown as jest.Mock;
+const executeRaw = prisma.$executeRaw as unknown as jest.Mock;
+
+const storedRow = {
+  owner_id: 1,
+  reminder_enabled: 1,
+  reminder_days_before: 1,
+  reminder_time: "10:00",
+  send_window_enabled: 1,
+  send_window_days: "1,2,3,4,5",
+  send_window_start: "08:00",
+  send_window_end: "20:00",
+  timezone: "America/Sao_Paulo",
+};
+
+// SQL da chamada com os fragmentos Prisma.sql expandidos
+const executedSql = (): string => {
+  const [strings, ...values] = executeRaw.mock.calls[0];
+  return strings.reduce(
+    (sql: string, part: string, index: number) =>
+      sql +
+      part +
+      (index >= values.length
+        ? ""
+        : typeof values[index]?.sql === "string"
+          ? values[index].sql
+          : "?"),
+    ""
+  );
+};
+
+describe("WaSettingsRepository", () => {
+  afterEach(() => {
+    jest.resetAllMocks();
+    executeRaw.mockResolvedValue(1);
+  });
+
+  it("usa os padrões quando o tenant não tem registro", async () => {
+    queryRaw.mockResolvedValueOnce([]);
+
+    expect(await waSettingsRepository.getByOwner(1)).toEqual(
+      waSettingsRepository.getDefaults(1)
+    );
+  });
+
+  it("repassa erro de banco em vez de aplicar os padrões", async () => {
+    queryRaw.mockRejectedValueOnce(new Error("Connection lost"));
+
+    await expect(waSettingsRepository.getByOwner(1)).rejects.toThrow(
+      "Connection lost"
+    );
+  });
+
+  it("não grava configurações se a leitura falhar", async () => {
+    queryRaw.mockRejectedValueOnce(new Error("Connection lost"));
+
+    await expect(
+      waSettingsRepository.upsert(1, { timezone: "America/Manaus" })
+    ).rejects.toThrow("Connection lost");
+    expect(executeRaw).not.toHaveBeenCalled();
+  });
+
+  it("resolve limites e canais NULL com o .env atual", async () => {
+    queryRaw.mockResolvedValueOnce([
+      {
+        ...storedRow,
+        messages_per_minute: null,
+        daily_cap: null,
+        channel_priority: null,
+      },
+    ]);
+
+    expect(await waSettingsRepository.getByOwner(1)).toMatchObject({
+      messagesPerMinute: config.queueMessagesPerMinute,
+      dailyCap: config.queueDailyCap,
+      channelPriority: waSettingsRepository.getDefaults(1).channelPriority,
+    });
+  });
+
+  it("não grava limites e canais que não vieram na atualização", async () => {
+    queryRaw.mockResolvedValue([]);
+
+    await waSettingsRepository.upsert(1, { timezone: "America/Manaus" });
+
+    const [, ...values] = executeRaw.mock.calls[0];
+    const sql = executedSql();
+    expect(sql).not.toContain("messages_per_minute = VALUES");
+    expect(sql).not.toContain("daily_cap = VALUES");
+    expect(sql).not.toContain("channel_priority = VALUES");
+    expect(values).toContain("America/Manaus");
+    expect(values).not.toContain(config.queueMessagesPerMinute);
+  });
+
+  it("grava null para voltar ao padrão do .env", async () => {
+    queryRaw.mockResolvedValue([]);
+
+    await waSettingsRepository.upsert(1, { dailyCap: null });
+
+    expect(executedSql()).toContain("daily_cap = VALUES(daily_cap)");
+  });
+});
@@ -0,0 +1,196 @@
+// src/repositories/waSettingsRepository.ts
+// Repository para configurações de envio por tenant
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "../config/database";
+import { config } from "../config/config";
+import { logger } from "../utils/logger";
+import {
+  getDefaultChannelPriority,
+  parseChannelPriority,
+} from "../utils/channelPriority";
+import type {
+  TenantSettings,
+  TenantSettingsUpdate,
+} from "../types/settings.types";
+
+// Linha de wa_settings (flags vêm como 0/1 do MySQL; NULL = padrão do .env)
+interface SettingsRow {
+  owner_id: number;
+  reminder_enabled: boolean | number;
+  reminder_days_before: number;
+  reminder_time: string;
+  send_window_enabled: boolean | number;
+  send_window_days: string | null;
+  send_window_start: string;
+  send_window_end: string;
+  timezone: string;
+  messages_per_minute: number | null;
+  daily_cap: number | null;
+  channel_priority: string | null;
+}
+
+export class WaSettingsRepository {
+  /**
+   * Busca configurações do owner (valores padrão se não houver registro)
+   * Erros de banco são repassados: aplicar os padrões desligaria a janela
+   * de envio e os limites do tenant.
+   */
+  async getByOwner(ownerId: number): Promise<TenantSettings> {
+    try {
+      const rows = await prisma.$queryRaw<SettingsRow[]>`
+        SELECT
+          owner_id, reminder_enabled, reminder_days_before, reminder_time,
+          send_window_enabled, send_window_days, send_window_start,
+          send_window_end, timezone, messages_per_minute, daily_cap,
+          channel_priority
+        FROM wa_settings
+        WHERE owner_id = ${ownerId}
+        LIMIT 1
+      `;
+
+      if (rows.length === 0) {
+        return this.getDefaults(ownerId);
+      }
+
+      return this.mapRow(rows[0]);
+    } catch (error) {
+      logger.error("Erro ao buscar configurações do tenant", error, {
+        ownerId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Cria ou atualiza configurações do owner
+   * Limites e canais só são gravados quando enviados (null = volta ao
+   * padrão do .env); sem valor próprio ficam NULL e seguem o .env.
+   */
+  async upsert(
+    ownerId: number,
+    update: TenantSettingsUpdate
+  ): Promise<TenantSettings> {
+    try {
+      const { messagesPerMinute, dailyCap, channelPriority, ...fields } =
+        update;
+      const settings = { ...(await this.getByOwner(ownerId)), ...fields };
+
+      const overrides: Prisma.Sql[] = [];
+      if (messagesPerMinute !== undefined) {
+        overrides.push(
+          Prisma.sql`messages_per_minute = VALUES(messages_per_minute)`
+        );
+      }
+      if (dailyCap !== undefined) {
+        overrides.push(Prisma.sql`daily_cap = VALUES(daily_cap)`);
+      }
+      if (channelPriority !== undefined) {
+        overrides.push(Prisma.sql`channel_priority = VALUES(channel_priority)`);
+      }
+
+      await prisma.$executeRaw`
+        INSERT INTO wa_settings (
+          owner_id, reminder_enabled, reminder_days_before, reminder_time,
+          send_window_enabled, send_window_days, send_window_start,
+          send_window_end, timezone, messages_per_minute, daily_cap,
+          channel_priority, created_at, updated_at
+        )
+        VALUES (
+          ${ownerId},
+          ${settings.reminderEnabled},
+          ${settings.reminderDaysBefore},
+          ${settings.reminderTime},
+          ${settings.sendWindowEnabled},
+          ${settings.sendWindowDays.join(",")},
+          ${settings.sendWindowStart},
+          ${settings.sendWindowEnd},
+          ${settings.timezone},
+          ${messagesPerMinute ?? null},
+          ${dailyCap ?? null},
+          ${channelPriority ? channelPriority.join(",") : null},
+          NOW(),
+          NOW()
+        )
+        ON DUPLICATE KEY UPDATE
+          reminder_enabled = VALUES(reminder_enabled),
+          reminder_days_before = VALUES(reminder_days_before),
+          reminder_time = VALUES(reminder_time),
+          send_window_enabled = VALUES(send_window_enabled),
+          send_window_days = VALUES(send_window_days),
+          send_window_start = VALUES(send_window_start),
+          send_window_end = VALUES(send_window_end),
+          timezone = VALUES(timezone),
+          ${overrides.length > 0 ? Prisma.sql`${Prisma.join(overrides, ", ")},` : Prisma.empty}
+          updated_at = NOW()
+      `;
+
+      logger.info("Configurações do tenant atualizadas", {
+        ownerId,
+        ...update,
+      });
+
+      // Padrões do .env resolvidos na leitura
+      return await this.getByOwner(ownerId);
+    } catch (error) {
+      logger.error("Erro ao salvar configurações do tenant", error, {
+        ownerId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Valores padrão (config/.env)
+   */
+  getDefaults(ownerId: number): TenantSettings {
+    return {
+      ownerId,
+      reminderEnabled: true,
+      reminderDaysBefore: config.reminderDefaultDaysBefore,
+      reminderTime: config.reminderDefaultTime,
+      sendWindowEnabled: false,
+      sendWindowDays: [1, 2, 3, 4, 5],
+      sendWindowStart: "08:00",
+      sendWindowEnd: "20:00",
+      timezone: config.defaultTimezone,
+      messagesPerMinute: config.queueMessagesPerMinute,
+      dailyCap: config.queueDailyCap,
+      channelPriority: getDefaultChannelPriority(),
+    };
+  }
+
+  /**
+   * Converte linha do banco para TenantSettings
+   */
+  private mapRow(row: SettingsRow): TenantSettings {
+    const channelPriority = parseChannelPriority(row.channel_priority);
+
+    return {
+      ownerId: Number(row.owner_id),
+      reminderEnabled: Boolean(row.reminder_enabled),
+      reminderDaysBefore: Number(row.reminder_days_before),
+      reminderTime: row.reminder_time,
+      sendWindowEnabled: Boolean(row.send_window_enabled),
+      sendWindowDays: String(row.send_window_days || "")
+        .split(",")
+        .filter((day) => day !== "")
+        .map(Number),
+      sendWindowStart: row.send_window_start,
+      sendWindowEnd: row.send_window_end,
+      timezone: row.timezone,
+      messagesPerMinute:
+        row.messages_per_minute !== null
+          ? Number(row.messages_per_minute)
+          : config.queueMessagesPerMinute,
+      dailyCap:
+        row.daily_cap !== null ? Number(row.daily_cap) : config.queueDailyCap,
+      channelPriority:
+        channelPriority.length > 0
+          ? channelPriority
+          : getDefaultChannelPriority(),
+    };
+  }
+}
+
+export const waSettingsRepository = new WaSettingsRepository();
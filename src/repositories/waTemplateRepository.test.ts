@@ -0,0 +1,93 @@
+// src/repositories/waTemplateRepository.test.ts
+
+import { WaTemplateRepository } from "./waTemplateRepository";
+import { prisma } from "../config/database";
+
+jest.mock("../config/database", () => ({ prisma: { $transaction: jest.fn() } }));
+
+// Transação falsa: registra o SQL na ordem e responde conforme o caso
+const fakeTransaction = (activeOfType: boolean) => {
+  const statements: string[] = [];
+  const tx = {
+    $queryRaw: jest.fn(async (strings: TemplateStringsArray) => {
+      const sql = strings.join("?").replace(/\s+/g, " ").trim();
+      statements.push(sql);
+
+      if (sql.includes("LAST_INSERT_ID")) return [{ id: BigInt(9) }];
+      if (sql.includes("FROM wa_templates") && sql.includes("active = 1")) {
+        return activeOfType ? [{ id: 3 }] : [];
+      }
+      if (sql.startsWith("SELECT type")) return [{ type: "confirmacao" }];
+      if (sql.startsWith("SELECT active")) return [{ active: 1 }];
+      return [{ id: 1 }];
+    }),
+    $executeRaw: jest.fn(async (strings: TemplateStringsArray) => {
+      statements.push(strings.join("?").replace(/\s+/g, " ").trim());
+      return 1;
+    }),
+  };
+
+  (prisma.$transaction as jest.Mock).mockImplementation(
+    async (callback: (client: typeof tx) => Promise<unknown>) => callback(tx)
+  );
+
+  return statements;
+};
+
+const template = {
+  type: "confirmacao" as const,
+  content: "Olá {nome}",
+  active: true,
+  channels: null,
+};
+
+describe("WaTemplateRepository - um ativo por tipo", () => {
+  const repository = new WaTemplateRepository();
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "info").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("trava o tenant antes de verificar e inserir", async () => {
+    const statements = fakeTransaction(false);
+
+    expect(await repository.create(1, template)).toBe(9);
+    expect(statements[0]).toMatch(/FROM of_clients .* FOR UPDATE$/);
+    expect(statements[1]).toMatch(/FROM wa_templates .* active = 1/);
+    expect(statements[2]).toMatch(/^INSERT INTO wa_templates/);
+  });
+
+  it("não insere quando já existe ativo do tipo", async () => {
+    const statements = fakeTransaction(true);
+
+    expect(await repository.create(1, template)).toBeNull();
+    expect(statements.some((sql) => sql.startsWith("INSERT"))).toBe(false);
+  });
+
+  it("cria inativo sem travar o tenant", async () => {
+    const statements = fakeTransaction(true);
+
+    expect(await repository.create(1, { ...template, active: false })).toBe(9);
+    expect(statements.some((sql) => sql.includes("of_clients"))).toBe(false);
+  });
+
+  it("não ativa quando já existe outro ativo do tipo", async () => {
+    const statements = fakeTransaction(true);
+
+    expect(await repository.activate(1, 5)).toBe(false);
+    expect(statements[0]).toMatch(/^SELECT type FROM wa_templates .* FOR UPDATE$/);
+    expect(statements.some((sql) => sql.startsWith("UPDATE"))).toBe(false);
+  });
+
+  it("não troca o tipo de template ativo para um tipo que já tem ativo", async () => {
+    const statements = fakeTransaction(true);
+
+    expect(await repository.update(1, 5, { type: "confirmacao" })).toBe(false);
+    expect(statements.some((sql) => sql.startsWith("UPDATE"))).toBe(false);
+  });
+});
@@ -2,7 +2,13 @@
 // Repository para gerenciar templates WhatsApp - COM LOGS DETALHADOS
 
 import { prisma } from "../config/database";
+import { Prisma } from "@prisma/client";
 import { logger } from "../utils/logger";
+import type {
+  TemplateCreate,
+  TemplateFilters,
+  TemplateUpdate,
+} from "../types/template.types";
 
 export interface TemplateData {
   id: number;
@@ -10,6 +16,19 @@ export interface TemplateData {
   type: string;
   content: string;
   active: boolean;
+  channels?: string | null;
+  created_at?: Date | null;
+}
+
+// Linha de wa_templates (active vem como 0/1 do MySQL)
+interface TemplateRow {
+  id: number;
+  owner_id: number;
+  type: string;
+  content: string;
+  active: boolean | number;
+  channels: string | null;
+  created_at: Date | null;
 }
 
 export class WaTemplateRepository {
@@ -129,6 +148,303 @@ export class WaTemplateRepository {
       return [];
     }
   }
+
+  /**
+   * Lista templates do owner com filtros (gerenciamento)
+   */
+  async list(
+    ownerId: number,
+    filters: TemplateFilters = {}
+  ): Promise<TemplateData[]> {
+    const conditions: Prisma.Sql[] = [Prisma.sql`owner_id = ${ownerId}`];
+
+    if (filters.type) {
+      conditions.push(Prisma.sql`type = ${filters.type}`);
+    }
+
+    if (filters.active !== undefined) {
+      conditions.push(Prisma.sql`active = ${filters.active}`);
+    }
+
+    const templates = await prisma.$queryRaw<TemplateRow[]>`
+      SELECT id, owner_id, type, content, active, channels, created_at
+      FROM wa_templates
+      WHERE ${Prisma.join(conditions, " AND ")}
+      ORDER BY type, active DESC, created_at DESC
+    `;
+
+    return templates.map((template) => this.mapRow(template));
+  }
+
+  /**
+   * Busca template do owner por ID
+   */
+  async getById(
+    ownerId: number,
+    templateId: number
+  ): Promise<TemplateData | null> {
+    const templates = await prisma.$queryRaw<TemplateRow[]>`
+      SELECT id, owner_id, type, content, active, channels, created_at
+      FROM wa_templates
+      WHERE id = ${templateId}
+      AND owner_id = ${ownerId}
+      LIMIT 1
+    `;
+
+    return templates[0] ? this.mapRow(templates[0]) : null;
+  }
+
+  /**
+   * Cria template
+   * @returns ID do template criado ou null se já existe template ativo do tipo
+   */
+  async create(ownerId: number, data: TemplateCreate): Promise<number | null> {
+    try {
+      // Mesma conexão para a verificação, o INSERT e o LAST_INSERT_ID()
+      const templateId = await prisma.$transaction(async (tx) => {
+        if (data.active && (await this.lockActiveOfType(tx, ownerId, data.type))) {
+          return null;
+        }
+
+        await tx.$executeRaw`
+          INSERT INTO wa_templates (
+            owner_id, type, content, active, channels, created_at
+          )
+          VALUES (
+            ${ownerId}, ${data.type}, ${data.content}, ${data.active},
+            ${data.channels}, NOW()
+          )
+        `;
+
+        const rows = await tx.$queryRaw<{ id: bigint }[]>`
+          SELECT LAST_INSERT_ID() AS id
+        `;
+
+        return Number(rows[0].id);
+      });
+
+      if (templateId === null) return null;
+
+      logger.info("✅ TEMPLATE REPO - Template criado", {
+        ownerId,
+        templateId,
+        type: data.type,
+        active: data.active,
+      });
+
+      return templateId;
+    } catch (error) {
+      logger.error("❌ TEMPLATE REPO - Erro ao criar template", error, {
+        ownerId,
+        type: data.type,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Atualiza conteúdo, tipo e/ou canais do template
+   * @returns false se o template está ativo e já existe outro ativo do novo tipo
+   */
+  async update(
+    ownerId: number,
+    templateId: number,
+    data: TemplateUpdate
+  ): Promise<boolean> {
+    const assignments: Prisma.Sql[] = [];
+
+    if (data.type !== undefined) {
+      assignments.push(Prisma.sql`type = ${data.type}`);
+    }
+
+    if (data.content !== undefined) {
+      assignments.push(Prisma.sql`content = ${data.content}`);
+    }
+
+    if (data.channels !== undefined) {
+      assignments.push(Prisma.sql`channels = ${data.channels}`);
+    }
+
+    if (assignments.length === 0) return true;
+
+    try {
+      const updated = await prisma.$transaction(async (tx) => {
+        if (data.type !== undefined) {
+          const rows = await tx.$queryRaw<{ active: number | null }[]>`
+            SELECT active
+            FROM wa_templates
+            WHERE id = ${templateId}
+            FOR UPDATE
+          `;
+
+          if (
+            rows[0]?.active &&
+            (await this.lockActiveOfType(tx, ownerId, data.type, templateId))
+          ) {
+            return false;
+          }
+        }
+
+        await tx.$executeRaw`
+          UPDATE wa_templates
+          SET ${Prisma.join(assignments, ", ")}
+          WHERE id = ${templateId}
+        `;
+
+        return true;
+      });
+
+      if (!updated) return false;
+
+      logger.info("✅ TEMPLATE REPO - Template atualizado", {
+        templateId,
+        fields: Object.keys(data),
+      });
+
+      return true;
+    } catch (error) {
+      logger.error("❌ TEMPLATE REPO - Erro ao atualizar template", error, {
+        templateId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Ativa template
+   * @returns false se já existe outro template ativo do tipo
+   */
+  async activate(ownerId: number, templateId: number): Promise<boolean> {
+    try {
+      const activated = await prisma.$transaction(async (tx) => {
+        // Tipo lido travado: uma atualização concorrente não troca o tipo no meio
+        const rows = await tx.$queryRaw<{ type: string }[]>`
+          SELECT type
+          FROM wa_templates
+          WHERE id = ${templateId}
+          FOR UPDATE
+        `;
+
+        if (
+          !rows[0] ||
+          (await this.lockActiveOfType(tx, ownerId, rows[0].type, templateId))
+        ) {
+          return false;
+        }
+
+        await tx.$executeRaw`
+          UPDATE wa_templates
+          SET active = 1
+          WHERE id = ${templateId}
+        `;
+
+        return true;
+      });
+
+      if (activated) {
+        logger.info("✅ TEMPLATE REPO - Template ativado", { templateId });
+      }
+
+      return activated;
+    } catch (error) {
+      logger.error("❌ TEMPLATE REPO - Erro ao ativar template", error, {
+        templateId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Ativa ou desativa template
+   * (ativação deve passar por activate para respeitar um ativo por tipo)
+   */
+  async setActive(templateId: number, active: boolean): Promise<void> {
+    try {
+      await prisma.$executeRaw`
+        UPDATE wa_templates
+        SET active = ${active}
+        WHERE id = ${templateId}
+      `;
+
+      logger.info("✅ TEMPLATE REPO - Status do template alterado", {
+        templateId,
+        active,
+      });
+    } catch (error) {
+      logger.error("❌ TEMPLATE REPO - Erro ao alterar status do template", error, {
+        templateId,
+        active,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove template
+   */
+  async delete(templateId: number): Promise<void> {
+    try {
+      await prisma.$executeRaw`
+        DELETE FROM wa_templates
+        WHERE id = ${templateId}
+      `;
+
+      logger.info("✅ TEMPLATE REPO - Template removido", { templateId });
+    } catch (error) {
+      logger.error("❌ TEMPLATE REPO - Erro ao remover template", error, {
+        templateId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Trava o tenant até o fim da transação e verifica se já existe template
+   * ativo do tipo. O lock no registro de of_clients serializa criações e
+   * ativações concorrentes do mesmo tenant (dois ativos do mesmo tipo); a
+   * leitura seguinte, feita depois do lock, já enxerga o que foi commitado.
+   * @param excludeId Ignora este template (ativação/atualização)
+   */
+  private async lockActiveOfType(
+    tx: Prisma.TransactionClient,
+    ownerId: number,
+    type: string,
+    excludeId?: number
+  ): Promise<boolean> {
+    await tx.$queryRaw`
+      SELECT id
+      FROM of_clients
+      WHERE id = ${ownerId}
+      FOR UPDATE
+    `;
+
+    const rows = await tx.$queryRaw<{ id: number }[]>`
+      SELECT id
+      FROM wa_templates
+      WHERE owner_id = ${ownerId}
+      AND type = ${type}
+      AND active = 1
+      AND id <> ${excludeId ?? 0}
+      LIMIT 1
+    `;
+
+    return rows.length > 0;
+  }
+
+  /**
+   * Converte linha do banco (active vem como 0/1 do MySQL)
+   */
+  private mapRow(row: TemplateRow): TemplateData {
+    return {
+      id: Number(row.id),
+      owner_id: Number(row.owner_id),
+      type: row.type,
+      content: row.content,
+      active: Boolean(row.active),
+      channels: row.channels ?? null,
+      created_at: row.created_at ?? null,
+    };
+  }
 }
 
 export const waTemplateRepository = new WaTemplateRepository();
@@ -0,0 +1,88 @@
+// src/routes/authRoutes.test.ts
+// Autorização por tenant nas rotas de API Keys (tenantId nos params)
+
+import express from "express";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import authRoutes from "./authRoutes";
+import { errorHandler } from "../middlewares/errorHandler";
+import { apiKeyService } from "../services/apiKeyService";
+
+jest.mock("../config/database", () => ({ prisma: {} }));
+jest.mock("../services/apiKeyService", () => ({
+  apiKeyService: {
+    authenticate: jest.fn(async (apiKey: string) =>
+      apiKey === "tenant-1-key"
+        ? { keyId: "key-1", tenantId: "1", isAdmin: false }
+        : null
+    ),
+    listKeys: jest.fn(async () => []),
+    revokeKey: jest.fn(async () => true),
+  },
+}));
+
+describe("authRoutes", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll((done) => {
+    const app = express();
+    app.use(express.json());
+    app.use("/api/auth", authRoutes);
+    app.use(errorHandler);
+
+    server = app.listen(0, () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterAll((done) => {
+    server.close(done);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const request = (method: string, path: string) =>
+    fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { "X-API-Key": "tenant-1-key" },
+    });
+
+  it("lista as chaves do próprio tenant", async () => {
+    const response = await request("GET", "/api/auth/keys/1");
+
+    expect(response.status).toBe(200);
+    expect(apiKeyService.listKeys).toHaveBeenCalledWith(1);
+  });
+
+  it("retorna 403 ao listar chaves de outro tenant", async () => {
+    const response = await request("GET", "/api/auth/keys/2");
+    const body = (await response.json()) as any;
+
+    expect(response.status).toBe(403);
+    expect(body.error.code).toBe("TENANT_FORBIDDEN");
+    expect(apiKeyService.listKeys).not.toHaveBeenCalledWith(2);
+  });
+
+  it("retorna 403 ao revogar chave de outro tenant", async () => {
+    const response = await request("DELETE", "/api/auth/keys/2/key-9");
+
+    expect(response.status).toBe(403);
+    expect(apiKeyService.revokeKey).not.toHaveBeenCalled();
+  });
+
+  it("retorna 401 sem API Key", async () => {
+    const response = await fetch(`${baseUrl}/api/auth/keys/1`);
+
+    expect(response.status).toBe(401);
+  });
+});
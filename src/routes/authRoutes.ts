@@ -0,0 +1,64 @@
+// src/routes/authRoutes.ts
+// Rotas para gerenciamento de API Keys por tenant
+
+import { Router } from "express";
+import { authController } from "../controllers/authController";
+import {
+  authenticateApiKey,
+  authorizeTenant,
+} from "../middlewares/apiKeyAuth";
+
+const router = Router();
+
+// Rotas privadas exigem API Key do tenant (ou chave administrativa)
+const privateAccess = [authenticateApiKey, authorizeTenant];
+
+/**
+ * @route   POST /api/auth/keys
+ * @desc    Emitir nova API Key para o tenant
+ * @access  Private (chave administrativa ou chave do próprio tenant)
+ * @body    { tenantId: number, name?: string }
+ */
+router.post(
+  "/keys",
+  ...privateAccess,
+  authController.issueKey.bind(authController)
+);
+
+/**
+ * @route   POST /api/auth/keys/rotate
+ * @desc    Emitir nova API Key e revogar a anterior
+ * @access  Private
+ * @body    { tenantId: number, keyId: string }
+ */
+router.post(
+  "/keys/rotate",
+  ...privateAccess,
+  authController.rotateKey.bind(authController)
+);
+
+/**
+ * @route   GET /api/auth/keys/:tenantId
+ * @desc    Listar API Keys do tenant
+ * @access  Private
+ * @params  tenantId: number
+ */
+router.get(
+  "/keys/:tenantId",
+  ...privateAccess,
+  authController.listKeys.bind(authController)
+);
+
+/**
+ * @route   DELETE /api/auth/keys/:tenantId/:keyId
+ * @desc    Revogar API Key
+ * @access  Private
+ * @params  tenantId: number, keyId: string
+ */
+router.delete(
+  "/keys/:tenantId/:keyId",
+  ...privateAccess,
+  authController.revokeKey.bind(authController)
+);
+
+export default router;
@@ -5,6 +5,9 @@ import { Router } from "express";
 import whatsappRoutes from "./whatsappRoutes";
 import webhookRoutes from "./webhookRoutes";
 import queueRoutes from "./queueRoutes";
+import authRoutes from "./authRoutes";
+import settingsRoutes from "./settingsRoutes";
+import templateRoutes from "./templateRoutes";
 
 const router = Router();
 
@@ -14,6 +17,10 @@ router.get("/", (req, res) => {
     message: "WhatsApp API v1.0.0",
     documentation: {
       whatsapp: "/api/whatsapp",
+      queue: "/api/queue",
+      auth: "/api/auth",
+      settings: "/api/settings",
+      templates: "/api/templates",
       webhooks: "/api/webhook",
       health: "/health",
     },
@@ -27,7 +34,30 @@ router.get("/", (req, res) => {
  */
 router.use("/whatsapp", whatsappRoutes);
 
+/**
+ * Rotas da fila de mensagens
+ * @prefix /api/queue
+ */
 router.use("/queue", queueRoutes);
+
+/**
+ * Rotas de API Keys
+ * @prefix /api/auth
+ */
+router.use("/auth", authRoutes);
+
+/**
+ * Rotas de configurações por tenant
+ * @prefix /api/settings
+ */
+router.use("/settings", settingsRoutes);
+
+/**
+ * Rotas de templates de mensagem
+ * @prefix /api/templates
+ */
+router.use("/templates", templateRoutes);
+
 /**
  * Rotas de webhooks
  * @prefix /api/webhook
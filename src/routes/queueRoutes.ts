@@ -3,25 +3,110 @@
 
 import { Router } from "express";
 import { queueController } from "../controllers/queueController";
+import {
+  authenticateApiKey,
+  authorizeSchedule,
+  authorizeTenant,
+  requireAdmin,
+} from "../middlewares/apiKeyAuth";
 
 const router = Router();
 
+// Todas as rotas da fila exigem API Key
+router.use(authenticateApiKey, authorizeTenant);
+
 // Adicionar mensagem na fila
-router.post("/enqueue", queueController.enqueue.bind(queueController));
+router.post(
+  "/enqueue",
+  authorizeSchedule,
+  queueController.enqueue.bind(queueController)
+);
+
+// Adicionar vários agendamentos na fila (scheduleIds ou filter por período)
+router.post("/enqueue/bulk", queueController.bulkEnqueue.bind(queueController));
+
+// Processar fila (todos os tenants)
+router.post(
+  "/process",
+  requireAdmin,
+  queueController.processQueue.bind(queueController)
+);
+
+// Listar itens da fila (filtros: status, templateType, scheduleId, from, to; cursor)
+router.get("/items", queueController.listItems.bind(queueController));
+
+// Ação em lote (cancel, requeue, reschedule)
+router.post("/items/bulk", queueController.bulkAction.bind(queueController));
 
-// Processar fila
-router.post("/process", queueController.processQueue.bind(queueController));
+// Itens com falha definitiva agrupados por motivo
+router.get("/dead-letter", queueController.getDeadLetter.bind(queueController));
+
+// Devolver itens com erro para a fila (queueIds ou filter)
+router.post("/requeue", queueController.requeue.bind(queueController));
+
+// Processar (ou tentar novamente) um item específico da fila
+router.post(
+  "/items/:queueId/process",
+  queueController.processItem.bind(queueController)
+);
+
+// Estado do processador automático (última execução, em andamento, etc.)
+router.get(
+  "/processor",
+  requireAdmin,
+  queueController.getProcessorStatus.bind(queueController)
+);
+
+// Alterar intervalo/batch size/concorrência do processador em tempo de execução
+router.put(
+  "/processor/config",
+  requireAdmin,
+  queueController.configureProcessor.bind(queueController)
+);
+
+// Controlar processador: start | stop | pause | resume
+router.post(
+  "/processor/:action",
+  requireAdmin,
+  queueController.controlProcessor.bind(queueController)
+);
+
+// Gerar lembretes dos próximos agendamentos (todos os tenants)
+router.post(
+  "/reminders/generate",
+  requireAdmin,
+  queueController.generateReminders.bind(queueController)
+);
 
 // Cancelar envio
-router.post("/cancel", queueController.cancel.bind(queueController));
+router.post(
+  "/cancel",
+  authorizeSchedule,
+  queueController.cancel.bind(queueController)
+);
+
+// Reagendar envio de item pendente
+router.post("/reschedule", queueController.reschedule.bind(queueController));
+
+// Agendamento alterado/cancelado: cancela ou atualiza itens pendentes
+router.post(
+  "/schedule-changed",
+  authorizeSchedule,
+  queueController.scheduleChanged.bind(queueController)
+);
 
 // Buscar histórico de mensagens
 router.get(
   "/history/:scheduleId",
+  authorizeSchedule,
   queueController.getHistory.bind(queueController)
 );
 
-// Status da fila
-router.get("/status", queueController.getQueueStatus.bind(queueController));
+// Status da fila (todos os tenants)
+router.get(
+  "/status",
+  requireAdmin,
+  queueController.getQueueStatus.bind(queueController)
+);
 
 export default router;
@@ -0,0 +1,128 @@
+// src/routes/settingsRoutes.test.ts
+// Autorização por tenant nas rotas de configurações (tenantId nos params)
+
+import express from "express";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import settingsRoutes from "./settingsRoutes";
+import { errorHandler } from "../middlewares/errorHandler";
+import { waSettingsRepository } from "../repositories/waSettingsRepository";
+
+jest.mock("../config/database", () => ({ prisma: {} }));
+jest.mock("../services/apiKeyService", () => ({
+  apiKeyService: {
+    authenticate: jest.fn(async (apiKey: string) =>
+      apiKey === "tenant-1-key"
+        ? { keyId: "key-1", tenantId: "1", isAdmin: false }
+        : null
+    ),
+  },
+}));
+jest.mock("../repositories/waSettingsRepository", () => ({
+  waSettingsRepository: {
+    getByOwner: jest.fn(async () => ({
+      sendWindowStart: "08:00",
+      sendWindowEnd: "18:00",
+    })),
+    upsert: jest.fn(async () => ({})),
+  },
+}));
+
+describe("settingsRoutes", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll((done) => {
+    const app = express();
+    app.use(express.json());
+    app.use("/api/settings", settingsRoutes);
+    app.use(errorHandler);
+
+    server = app.listen(0, () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterAll((done) => {
+    server.close(done);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const request = (method: string, path: string, body?: object) =>
+    fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        "X-API-Key": "tenant-1-key",
+        "Content-Type": "application/json",
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+  it("retorna as configurações do próprio tenant", async () => {
+    const response = await request("GET", "/api/settings/1");
+
+    expect(response.status).toBe(200);
+    expect(waSettingsRepository.getByOwner).toHaveBeenCalledWith(1);
+  });
+
+  it("retorna 403 ao ler configurações de outro tenant", async () => {
+    const response = await request("GET", "/api/settings/2");
+    const body = (await response.json()) as any;
+
+    expect(response.status).toBe(403);
+    expect(body.error.code).toBe("TENANT_FORBIDDEN");
+    expect(waSettingsRepository.getByOwner).not.toHaveBeenCalled();
+  });
+
+  it("retorna 403 ao alterar configurações de outro tenant", async () => {
+    const response = await request("PUT", "/api/settings/2", {
+      reminderEnabled: false,
+    });
+
+    expect(response.status).toBe(403);
+    expect(waSettingsRepository.upsert).not.toHaveBeenCalled();
+  });
+
+  it("valida a janela de envio contra as configurações salvas", async () => {
+    const response = await request("PUT", "/api/settings/1", {
+      sendWindowStart: "19:00",
+    });
+    const body = (await response.json()) as any;
+
+    expect(response.status).toBe(400);
+    expect(body.error.code).toBe("INVALID_SEND_WINDOW");
+    expect(waSettingsRepository.upsert).not.toHaveBeenCalled();
+  });
+
+  it("aceita janela válida após a combinação", async () => {
+    const response = await request("PUT", "/api/settings/1", {
+      sendWindowEnd: "20:00",
+    });
+
+    expect(response.status).toBe(200);
+    expect(waSettingsRepository.upsert).toHaveBeenCalledWith(1, {
+      sendWindowEnd: "20:00",
+    });
+  });
+
+  it("aceita null para voltar limites ao padrão do .env", async () => {
+    const response = await request("PUT", "/api/settings/1", {
+      dailyCap: null,
+    });
+
+    expect(response.status).toBe(200);
+    expect(waSettingsRepository.upsert).toHaveBeenCalledWith(1, {
+      dailyCap: null,
+    });
+  });
+});
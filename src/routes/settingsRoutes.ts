@@ -0,0 +1,44 @@
+// src/routes/settingsRoutes.ts
+// Rotas para configurações de envio por tenant
+
+import { Router } from "express";
+import { settingsController } from "../controllers/settingsController";
+import {
+  authenticateApiKey,
+  authorizeTenant,
+} from "../middlewares/apiKeyAuth";
+
+const router = Router();
+
+// Rotas privadas exigem API Key do tenant (ou chave administrativa)
+const privateAccess = [authenticateApiKey, authorizeTenant];
+
+/**
+ * @route   GET /api/settings/:tenantId
+ * @desc    Obter configurações de envio do tenant
+ * @access  Private
+ * @params  tenantId: number
+ */
+router.get(
+  "/:tenantId",
+  ...privateAccess,
+  settingsController.getSettings.bind(settingsController)
+);
+
+/**
+ * @route   PUT /api/settings/:tenantId
+ * @desc    Atualizar configurações de envio do tenant
+ * @access  Private
+ * @params  tenantId: number
+ * @body    { reminderEnabled?, reminderDaysBefore?, reminderTime?: "HH:MM",
+ *            sendWindowEnabled?, sendWindowDays?: number[], sendWindowStart?: "HH:MM",
+ *            sendWindowEnd?: "HH:MM", timezone?, messagesPerMinute?, dailyCap?,
+ *            channelPriority?: ("whatsapp" | "email" | "sms")[] }
+ */
+router.put(
+  "/:tenantId",
+  ...privateAccess,
+  settingsController.updateSettings.bind(settingsController)
+);
+
+export default router;
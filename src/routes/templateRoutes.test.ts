@@ -0,0 +1,146 @@
+// src/routes/templateRoutes.test.ts
+// Autorização por tenant nas rotas de templates (tenantId nos params)
+// e conflito de template ativo por tipo
+
+import express from "express";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import templateRoutes from "./templateRoutes";
+import { errorHandler } from "../middlewares/errorHandler";
+import { waTemplateRepository } from "../repositories/waTemplateRepository";
+
+jest.mock("../config/database", () => ({ prisma: {} }));
+jest.mock("../services/apiKeyService", () => ({
+  apiKeyService: {
+    authenticate: jest.fn(async (apiKey: string) =>
+      apiKey === "tenant-1-key"
+        ? { keyId: "key-1", tenantId: "1", isAdmin: false }
+        : null
+    ),
+  },
+}));
+jest.mock("../repositories/waTemplateRepository", () => ({
+  waTemplateRepository: {
+    list: jest.fn(async () => []),
+    getById: jest.fn(async () => null),
+    create: jest.fn(async () => 1),
+    activate: jest.fn(async () => true),
+    delete: jest.fn(async () => undefined),
+  },
+}));
+
+describe("templateRoutes", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll((done) => {
+    const app = express();
+    app.use(express.json());
+    app.use("/api/templates", templateRoutes);
+    app.use(errorHandler);
+
+    server = app.listen(0, () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterAll((done) => {
+    server.close(done);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const request = (method: string, path: string, body?: object) =>
+    fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        "X-API-Key": "tenant-1-key",
+        "Content-Type": "application/json",
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+  it("lista os templates do próprio tenant", async () => {
+    const response = await request("GET", "/api/templates/1");
+
+    expect(response.status).toBe(200);
+    expect(waTemplateRepository.list).toHaveBeenCalledWith(1, {});
+  });
+
+  it("retorna 403 ao listar templates de outro tenant", async () => {
+    const response = await request("GET", "/api/templates/2");
+    const body = (await response.json()) as any;
+
+    expect(response.status).toBe(403);
+    expect(body.error.code).toBe("TENANT_FORBIDDEN");
+    expect(waTemplateRepository.list).not.toHaveBeenCalled();
+  });
+
+  it("retorna 403 ao criar template para outro tenant", async () => {
+    const response = await request("POST", "/api/templates/2", {
+      type: "confirmacao",
+      content: "Olá {nome}",
+    });
+
+    expect(response.status).toBe(403);
+    expect(waTemplateRepository.create).not.toHaveBeenCalled();
+  });
+
+  it("retorna 403 ao remover template de outro tenant", async () => {
+    const response = await request("DELETE", "/api/templates/2/5");
+
+    expect(response.status).toBe(403);
+    expect(waTemplateRepository.getById).not.toHaveBeenCalled();
+    expect(waTemplateRepository.delete).not.toHaveBeenCalled();
+  });
+
+  it("retorna 403 ao pré-visualizar template de outro tenant", async () => {
+    const response = await request("POST", "/api/templates/preview", {
+      tenantId: 2,
+      templateId: 5,
+    });
+
+    expect(response.status).toBe(403);
+    expect(waTemplateRepository.getById).not.toHaveBeenCalled();
+  });
+
+  it("retorna 409 ao criar template ativo de tipo que já tem ativo", async () => {
+    (waTemplateRepository.create as jest.Mock).mockResolvedValueOnce(null);
+
+    const response = await request("POST", "/api/templates/1", {
+      type: "confirmacao",
+      content: "Olá {nome}",
+    });
+    const body = (await response.json()) as any;
+
+    expect(response.status).toBe(409);
+    expect(body.error.code).toBe("TEMPLATE_TYPE_ACTIVE");
+  });
+
+  it("retorna 409 ao ativar template de tipo que já tem ativo", async () => {
+    (waTemplateRepository.getById as jest.Mock).mockResolvedValueOnce({
+      id: 5,
+      owner_id: 1,
+      type: "confirmacao",
+      content: "Olá {nome}",
+      active: false,
+    });
+    (waTemplateRepository.activate as jest.Mock).mockResolvedValueOnce(false);
+
+    const response = await request("POST", "/api/templates/1/5/activate");
+    const body = (await response.json()) as any;
+
+    expect(response.status).toBe(409);
+    expect(body.error.code).toBe("TEMPLATE_TYPE_ACTIVE");
+    expect(waTemplateRepository.activate).toHaveBeenCalledWith(1, 5);
+  });
+});
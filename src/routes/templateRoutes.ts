@@ -0,0 +1,119 @@
+// src/routes/templateRoutes.ts
+// Rotas para gerenciamento de templates de mensagem por tenant
+
+import { Router } from "express";
+import { templateController } from "../controllers/templateController";
+import {
+  authenticateApiKey,
+  authorizeTenant,
+} from "../middlewares/apiKeyAuth";
+
+const router = Router();
+
+// Rotas privadas exigem API Key do tenant (ou chave administrativa)
+const privateAccess = [authenticateApiKey, authorizeTenant];
+
+/**
+ * @route   POST /api/templates/preview
+ * @desc    Pré-visualizar mensagem renderizada (placeholders não resolvidos e avisos)
+ * @access  Private
+ * @body    { tenantId: number, templateId?: number, content?: string,
+ *            scheduleId?: number, sample?: { patientName?, birthDate?, parentName?,
+ *            dates?, times?, procedures?, price?, professional?, sedation?,
+ *            surgery?, laboratory? } }
+ */
+router.post(
+  "/preview",
+  ...privateAccess,
+  templateController.previewTemplate.bind(templateController)
+);
+
+/**
+ * @route   GET /api/templates/:tenantId
+ * @desc    Listar templates do tenant (e tipos obrigatórios sem template ativo)
+ * @access  Private
+ * @params  tenantId: number
+ * @query   type?: "confirmacao" | "confirmar" | "reagendar", active?: boolean
+ */
+router.get(
+  "/:tenantId",
+  ...privateAccess,
+  templateController.listTemplates.bind(templateController)
+);
+
+/**
+ * @route   GET /api/templates/:tenantId/:templateId
+ * @desc    Obter template
+ * @access  Private
+ * @params  tenantId: number, templateId: number
+ */
+router.get(
+  "/:tenantId/:templateId",
+  ...privateAccess,
+  templateController.getTemplate.bind(templateController)
+);
+
+/**
+ * @route   POST /api/templates/:tenantId
+ * @desc    Criar template (apenas um ativo por tipo)
+ * @access  Private
+ * @params  tenantId: number
+ * @body    { type: "confirmacao" | "confirmar" | "reagendar", content: string,
+ *            active?: boolean, channels?: ("whatsapp" | "email" | "sms")[] | null }
+ */
+router.post(
+  "/:tenantId",
+  ...privateAccess,
+  templateController.createTemplate.bind(templateController)
+);
+
+/**
+ * @route   PUT /api/templates/:tenantId/:templateId
+ * @desc    Atualizar tipo, conteúdo ou canais do template
+ * @access  Private
+ * @params  tenantId: number, templateId: number
+ * @body    { type?, content?, channels?: ("whatsapp" | "email" | "sms")[] | null }
+ */
+router.put(
+  "/:tenantId/:templateId",
+  ...privateAccess,
+  templateController.updateTemplate.bind(templateController)
+);
+
+/**
+ * @route   POST /api/templates/:tenantId/:templateId/activate
+ * @desc    Ativar template (falha se já houver outro ativo do mesmo tipo)
+ * @access  Private
+ * @params  tenantId: number, templateId: number
+ */
+router.post(
+  "/:tenantId/:templateId/activate",
+  ...privateAccess,
+  templateController.activateTemplate.bind(templateController)
+);
+
+/**
+ * @route   POST /api/templates/:tenantId/:templateId/deactivate
+ * @desc    Desativar template
+ * @access  Private
+ * @params  tenantId: number, templateId: number
+ */
+router.post(
+  "/:tenantId/:templateId/deactivate",
+  ...privateAccess,
+  templateController.deactivateTemplate.bind(templateController)
+);
+
+/**
+ * @route   DELETE /api/templates/:tenantId/:templateId
+ * @desc    Remover template (falha se houver envios aguardando na fila)
+ * @access  Private
+ * @params  tenantId: number, templateId: number
+ */
+router.delete(
+  "/:tenantId/:templateId",
+  ...privateAccess,
+  templateController.deleteTemplate.bind(templateController)
+);
+
+export default router;
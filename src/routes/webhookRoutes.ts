@@ -11,8 +11,11 @@ const router = Router();
  * @desc    Webhook do Evolution API para receber eventos do WhatsApp
  * @access  External (Evolution API)
  * @params  tenantId: number
- * @body    { event: string, data: any }
- * @note    Esta rota é chamada automaticamente pelo Evolution API
+ * @query   secret: string (segredo da sessão, incluído na URL registrada)
+ * @body    { event: string, instance: string, apikey: string, data: any }
+ * @note    Esta rota é chamada automaticamente pelo Evolution API.
+ *          Webhooks sem segredo válido ou apikey da sessão retornam 401;
+ *          instância diferente de tenant_{tenantId} retorna 403.
  */
 router.post(
   "/whatsapp/:tenantId",
@@ -3,16 +3,27 @@
 
 import { Router } from "express";
 import { whatsappController } from "../controllers/whatsappController";
+import {
+  authenticateApiKey,
+  authorizeTenant,
+} from "../middlewares/apiKeyAuth";
 
 const router = Router();
 
+// Rotas privadas exigem API Key do tenant (ou chave administrativa)
+const privateAccess = [authenticateApiKey, authorizeTenant];
+
 /**
  * @route   POST /api/whatsapp/connect
  * @desc    Conectar tenant ao WhatsApp
  * @access  Private
  * @body    { tenantId: number }
  */
-router.post("/connect", whatsappController.connect.bind(whatsappController));
+router.post(
+  "/connect",
+  ...privateAccess,
+  whatsappController.connect.bind(whatsappController)
+);
 
 /**
  * @route   POST /api/whatsapp/disconnect
@@ -22,6 +33,7 @@ router.post("/connect", whatsappController.connect.bind(whatsappController));
  */
 router.post(
   "/disconnect",
+  ...privateAccess,
   whatsappController.disconnect.bind(whatsappController)
 );
 
@@ -33,6 +45,7 @@ router.post(
  */
 router.get(
   "/status/:tenantId",
+  ...privateAccess,
   whatsappController.getStatus.bind(whatsappController)
 );
 
@@ -44,6 +57,7 @@ router.get(
  */
 router.post(
   "/send-message",
+  ...privateAccess,
   whatsappController.sendMessage.bind(whatsappController)
 );
 
@@ -55,6 +69,7 @@ router.post(
  */
 router.get(
   "/qrcode/:tenantId",
+  ...privateAccess,
   whatsappController.getQRCode.bind(whatsappController)
 );
 
@@ -66,6 +81,7 @@ router.get(
  */
 router.get(
   "/webhook/:tenantId",
+  ...privateAccess,
   whatsappController.getWebhook.bind(whatsappController)
 );
 
@@ -84,6 +100,7 @@ router.get("/health", whatsappController.health.bind(whatsappController));
  */
 router.get(
   "/token/:tenantId",
+  ...privateAccess,
   whatsappController.getSessionToken.bind(whatsappController)
 );
 export default router;
@@ -75,7 +75,8 @@ export const evolutionWebhookSchema = z.object({
       })
       .optional(),
     pushName: z.string().optional(),
-    status: z.string().optional(),
+    // Texto (ex: DELIVERY_ACK) ou código numérico em messages.update
+    status: z.union([z.string(), z.number()]).optional(),
     message: z
       .object({
         conversation: z.string().optional(),
@@ -92,6 +93,12 @@ export const evolutionWebhookSchema = z.object({
     instanceId: z.string().optional(),
     source: z.string().optional(),
 
+    // Para messages.update (confirmação de entrega/leitura)
+    keyId: z.string().optional(),
+    messageId: z.string().optional(),
+    remoteJid: z.string().optional(),
+    fromMe: z.boolean().optional(),
+
     // Para QR Code
     qrcode: z
       .object({
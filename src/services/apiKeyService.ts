@@ -0,0 +1,193 @@
+// src/services/apiKeyService.ts
+// Serviço para emissão, validação, rotação e revogação de API Keys por tenant
+
+import crypto from "crypto";
+import { prisma } from "../config/database";
+import { config } from "../config/config";
+import { logger } from "../utils/logger";
+import { generateSecret, safeCompare } from "../utils/security";
+import type {
+  AuthContext,
+  ApiKeyInfo,
+  IssuedApiKey,
+} from "../types/auth.types";
+
+const API_KEY_PREFIX = "wak";
+
+export class ApiKeyService {
+  /**
+   * Emitir nova API Key para um tenant
+   * @param tenantId ID do tenant
+   * @param name Nome descritivo da chave (opcional)
+   * @returns Chave emitida (texto puro exibido apenas nesta resposta)
+   */
+  async issueKey(tenantId: number, name?: string): Promise<IssuedApiKey> {
+    try {
+      const keyPrefix = generateSecret(4);
+      const secret = generateSecret();
+      const apiKey = `${API_KEY_PREFIX}_${keyPrefix}_${secret}`;
+
+      const record = await prisma.tenantApiKey.create({
+        data: {
+          tenantId: tenantId.toString(),
+          name: name ?? null,
+          keyPrefix,
+          keyHash: this.hashKey(apiKey),
+        },
+      });
+
+      logger.info("API Key emitida", {
+        tenantId,
+        keyId: record.id,
+        keyPrefix,
+      });
+
+      return {
+        id: record.id,
+        tenantId: record.tenantId,
+        name: record.name,
+        keyPrefix: record.keyPrefix,
+        apiKey,
+        createdAt: record.createdAt,
+      };
+    } catch (error) {
+      logger.error("Erro ao emitir API Key", error, { tenantId });
+      throw error;
+    }
+  }
+
+  /**
+   * Rotacionar API Key: emite uma nova e revoga a anterior
+   * @returns null se a chave não existir ou já estiver revogada
+   */
+  async rotateKey(
+    tenantId: number,
+    keyId: string
+  ): Promise<IssuedApiKey | null> {
+    try {
+      const current = await this.findTenantKey(tenantId, keyId);
+
+      if (!current || current.revokedAt) {
+        logger.warn("API Key não encontrada para rotação", { tenantId, keyId });
+        return null;
+      }
+
+      const issued = await this.issueKey(tenantId, current.name ?? undefined);
+      await this.revokeKey(tenantId, keyId);
+
+      logger.info("API Key rotacionada", {
+        tenantId,
+        oldKeyId: keyId,
+        newKeyId: issued.id,
+      });
+
+      return issued;
+    } catch (error) {
+      logger.error("Erro ao rotacionar API Key", error, { tenantId, keyId });
+      throw error;
+    }
+  }
+
+  /**
+   * Revogar API Key
+   * @returns false se a chave não existir para o tenant
+   */
+  async revokeKey(tenantId: number, keyId: string): Promise<boolean> {
+    try {
+      const result = await prisma.tenantApiKey.updateMany({
+        where: {
+          id: keyId,
+          tenantId: tenantId.toString(),
+          revokedAt: null,
+        },
+        data: { revokedAt: new Date() },
+      });
+
+      logger.info("API Key revogada", {
+        tenantId,
+        keyId,
+        revoked: result.count > 0,
+      });
+
+      return result.count > 0;
+    } catch (error) {
+      logger.error("Erro ao revogar API Key", error, { tenantId, keyId });
+      throw error;
+    }
+  }
+
+  /**
+   * Listar chaves de um tenant (sem hash)
+   */
+  async listKeys(tenantId: number): Promise<ApiKeyInfo[]> {
+    const keys = await prisma.tenantApiKey.findMany({
+      where: { tenantId: tenantId.toString() },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return keys.map((key) => ({
+      id: key.id,
+      tenantId: key.tenantId,
+      name: key.name,
+      keyPrefix: key.keyPrefix,
+      lastUsedAt: key.lastUsedAt,
+      revokedAt: key.revokedAt,
+      createdAt: key.createdAt,
+    }));
+  }
+
+  /**
+   * Validar chave recebida na requisição
+   * @returns Contexto de autenticação ou null se a chave for inválida
+   */
+  async authenticate(apiKey: string): Promise<AuthContext | null> {
+    if (safeCompare(apiKey, config.adminApiKey)) {
+      return { keyId: null, tenantId: null, isAdmin: true };
+    }
+
+    if (!apiKey.startsWith(`${API_KEY_PREFIX}_`)) {
+      return null;
+    }
+
+    const record = await prisma.tenantApiKey.findUnique({
+      where: { keyHash: this.hashKey(apiKey) },
+    });
+
+    if (!record || record.revokedAt) {
+      return null;
+    }
+
+    // Atualizar último uso sem bloquear a requisição
+    prisma.tenantApiKey
+      .update({
+        where: { id: record.id },
+        data: { lastUsedAt: new Date() },
+      })
+      .catch((error) =>
+        logger.warn("Falha ao atualizar último uso da API Key", {
+          keyId: record.id,
+          error: error.message,
+        })
+      );
+
+    return { keyId: record.id, tenantId: record.tenantId, isAdmin: false };
+  }
+
+  /**
+   * Buscar chave pertencente ao tenant
+   */
+  private async findTenantKey(tenantId: number, keyId: string) {
+    return prisma.tenantApiKey.findFirst({
+      where: { id: keyId, tenantId: tenantId.toString() },
+    });
+  }
+
+  /**
+   * Hash SHA-256 da chave (chaves têm alta entropia, dispensando salt)
+   */
+  private hashKey(apiKey: string): string {
+    return crypto.createHash("sha256").update(apiKey).digest("hex");
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
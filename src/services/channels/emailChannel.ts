@@ -0,0 +1,79 @@
+// src/services/channels/emailChannel.ts
+// Canal de e-mail (SMTP da clínica)
+
+import { emailService } from "../emailService";
+import { createQueueError, isQueueError } from "../../utils/queueErrors";
+import { MessageChannelType, QueueErrorCode } from "../../types/queue.types";
+import type {
+  ChannelPatient,
+  ChannelSendResult,
+  MessageChannel,
+} from "./messageChannel";
+
+// Erros de conexão do nodemailer
+const CONNECTION_ERROR_CODES = ["ECONNECTION", "ETIMEDOUT", "ESOCKET", "EDNS"];
+
+export class EmailChannel implements MessageChannel {
+  readonly type = MessageChannelType.EMAIL;
+
+  async resolveRecipient(
+    _ownerId: number,
+    patient: ChannelPatient
+  ): Promise<string> {
+    const email = patient.email?.trim();
+
+    if (!email || !email.includes("@")) {
+      throw createQueueError(
+        "Paciente sem e-mail cadastrado",
+        QueueErrorCode.PATIENT_NO_EMAIL
+      );
+    }
+
+    return email;
+  }
+
+  async send(
+    ownerId: number,
+    recipient: string,
+    text: string
+  ): Promise<ChannelSendResult> {
+    try {
+      const messageId = await emailService.sendMessage(ownerId, recipient, text);
+      return { externalId: messageId };
+    } catch (error) {
+      throw this.classifySmtpError(error);
+    }
+  }
+
+  /**
+   * SMTP 5xx = recusa definitiva; 4xx e falhas de conexão = nova tentativa
+   */
+  private classifySmtpError(error: unknown): Error {
+    if (isQueueError(error)) return error;
+
+    // Erros do nodemailer trazem responseCode (SMTP) ou code (rede)
+    const smtpError = error as Error & { responseCode?: number; code?: string };
+    const responseCode = Number(smtpError?.responseCode);
+
+    if (responseCode >= 500) {
+      return createQueueError(
+        `SMTP recusou o e-mail (${responseCode}): ${smtpError.message}`,
+        QueueErrorCode.CHANNEL_REJECTED
+      );
+    }
+
+    if (
+      responseCode >= 400 ||
+      CONNECTION_ERROR_CODES.includes(smtpError?.code ?? "")
+    ) {
+      return createQueueError(
+        `SMTP indisponível: ${smtpError.message}`,
+        QueueErrorCode.CHANNEL_UNAVAILABLE
+      );
+    }
+
+    return smtpError;
+  }
+}
+
+export const emailChannel = new EmailChannel();
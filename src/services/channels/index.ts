@@ -0,0 +1,20 @@
+// src/services/channels/index.ts
+// Registro dos canais de envio disponíveis
+
+import { MessageChannelType } from "../../types/queue.types";
+import type { MessageChannel } from "./messageChannel";
+import { whatsappChannel } from "./whatsappChannel";
+import { emailChannel } from "./emailChannel";
+import { smsChannel } from "./smsChannel";
+
+const channels: Record<MessageChannelType, MessageChannel> = {
+  [MessageChannelType.WHATSAPP]: whatsappChannel,
+  [MessageChannelType.EMAIL]: emailChannel,
+  [MessageChannelType.SMS]: smsChannel,
+};
+
+export const getMessageChannel = (type: MessageChannelType): MessageChannel =>
+  channels[type];
+
+export type { MessageChannel, ChannelPatient, ChannelSendResult } from "./messageChannel";
+export { whatsappChannel, emailChannel, smsChannel };
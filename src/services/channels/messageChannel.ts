@@ -0,0 +1,32 @@
+// src/services/channels/messageChannel.ts
+// Contrato dos canais de envio (WhatsApp, e-mail, SMS)
+
+import type { MessageChannelType } from "../../types/queue.types";
+
+// Dados de contato do paciente usados pelos canais
+export interface ChannelPatient {
+  name: string;
+  tel1: string | null;
+  tel2: string | null;
+  email: string | null;
+}
+
+export interface ChannelSendResult {
+  externalId: string | null; // ID da mensagem no provedor (confirmações de entrega)
+}
+
+export interface MessageChannel {
+  readonly type: MessageChannelType;
+
+  /**
+   * Destino do paciente neste canal (telefone, e-mail...)
+   * Lança erro da fila quando o canal não pode ser usado
+   * (paciente sem contato, canal não configurado, sessão desconectada).
+   */
+  resolveRecipient(ownerId: number, patient: ChannelPatient): Promise<string>;
+
+  /**
+   * Envia a mensagem já renderizada
+   */
+  send(ownerId: number, recipient: string, text: string): Promise<ChannelSendResult>;
+}
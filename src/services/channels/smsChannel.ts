@@ -0,0 +1,106 @@
+// src/services/channels/smsChannel.ts
+// Canal de SMS via gateway HTTP genérico (SMS_GATEWAY_URL)
+
+import axios, { AxiosError } from "axios";
+import { config } from "../../config/config";
+import { logger } from "../../utils/logger";
+import { formatPhoneForWhatsApp } from "../../utils/formatters";
+import { createQueueError } from "../../utils/queueErrors";
+import { MessageChannelType, QueueErrorCode } from "../../types/queue.types";
+import type {
+  ChannelPatient,
+  ChannelSendResult,
+  MessageChannel,
+} from "./messageChannel";
+
+export class SmsChannel implements MessageChannel {
+  readonly type = MessageChannelType.SMS;
+
+  async resolveRecipient(
+    _ownerId: number,
+    patient: ChannelPatient
+  ): Promise<string> {
+    if (!config.smsGatewayUrl) {
+      throw createQueueError(
+        "Gateway de SMS não configurado (SMS_GATEWAY_URL)",
+        QueueErrorCode.CHANNEL_NOT_CONFIGURED
+      );
+    }
+
+    const phone = [patient.tel1, patient.tel2]
+      .map((value) => (value ? formatPhoneForWhatsApp(value) : ""))
+      .find((value) => value !== "");
+
+    if (!phone) {
+      throw createQueueError(
+        "Paciente sem telefone cadastrado",
+        QueueErrorCode.PATIENT_NO_PHONE
+      );
+    }
+
+    return phone;
+  }
+
+  /**
+   * POST { to, message, sender, reference } no gateway
+   * O ID da mensagem é lido de `id` ou `messageId` da resposta.
+   */
+  async send(
+    ownerId: number,
+    recipient: string,
+    text: string
+  ): Promise<ChannelSendResult> {
+    try {
+      const response = await axios.post(
+        config.smsGatewayUrl!,
+        {
+          to: recipient,
+          message: text,
+          sender: config.smsSender,
+          reference: `owner_${ownerId}`,
+        },
+        {
+          timeout: config.smsGatewayTimeout,
+          headers: config.smsGatewayToken
+            ? { Authorization: `Bearer ${config.smsGatewayToken}` }
+            : undefined,
+        }
+      );
+
+      const externalId = response.data?.id ?? response.data?.messageId ?? null;
+
+      logger.info("SMS enviado", { ownerId, to: recipient, externalId });
+
+      return { externalId: externalId !== null ? String(externalId) : null };
+    } catch (error) {
+      logger.error("Erro ao enviar SMS", error, { ownerId, to: recipient });
+      throw this.classifyGatewayError(error);
+    }
+  }
+
+  /**
+   * 4xx = recusa definitiva; 5xx, timeout e rede = nova tentativa
+   */
+  private classifyGatewayError(error: unknown): Error {
+    if (!(error instanceof AxiosError)) return error as Error;
+
+    const status = error.response?.status;
+
+    if (status && status < 500) {
+      const body = JSON.stringify(error.response?.data ?? {});
+      return createQueueError(
+        `Gateway de SMS rejeitou a mensagem (${status}): ${body.substring(0, 200)}`,
+        QueueErrorCode.CHANNEL_REJECTED
+      );
+    }
+
+    return createQueueError(
+      status
+        ? `Gateway de SMS retornou ${status}`
+        : `Gateway de SMS indisponível: ${error.message}`,
+      QueueErrorCode.CHANNEL_UNAVAILABLE
+    );
+  }
+}
+
+export const smsChannel = new SmsChannel();
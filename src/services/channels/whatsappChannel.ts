@@ -0,0 +1,108 @@
+// src/services/channels/whatsappChannel.ts
+// Canal de WhatsApp (Evolution API)
+
+import { queueDataStore } from "../../repositories/queueDataStore";
+import { whatsappService } from "../whatsappService";
+import { whatsappNumberService } from "../whatsappNumberService";
+import { logger } from "../../utils/logger";
+import { createQueueError } from "../../utils/queueErrors";
+import { MessageChannelType, QueueErrorCode } from "../../types/queue.types";
+import type {
+  ChannelPatient,
+  ChannelSendResult,
+  MessageChannel,
+} from "./messageChannel";
+
+export class WhatsAppChannel implements MessageChannel {
+  readonly type = MessageChannelType.WHATSAPP;
+
+  /**
+   * Primeiro telefone com WhatsApp (tel1, depois tel2), com sessão conectada
+   * all_patients não tem telefone do responsável: para menores, tel1/tel2
+   * já são os contatos cadastrados pela clínica.
+   */
+  async resolveRecipient(
+    ownerId: number,
+    patient: ChannelPatient
+  ): Promise<string> {
+    if (!patient.tel1 && !patient.tel2) {
+      throw createQueueError(
+        "Paciente sem telefone cadastrado",
+        QueueErrorCode.PATIENT_NO_PHONE
+      );
+    }
+
+    await this.validateSession(ownerId);
+
+    const phone = await whatsappNumberService.resolveRecipient(ownerId, [
+      patient.tel1,
+      patient.tel2,
+    ]);
+
+    if (!phone) {
+      throw createQueueError(
+        "Nenhum telefone do paciente possui WhatsApp (tel1/tel2)",
+        QueueErrorCode.PATIENT_NO_WHATSAPP
+      );
+    }
+
+    return phone;
+  }
+
+  async send(
+    ownerId: number,
+    recipient: string,
+    text: string
+  ): Promise<ChannelSendResult> {
+    const result = await whatsappService.sendMessage(ownerId, recipient, text);
+    return { externalId: result?.key?.id ?? null };
+  }
+
+  /**
+   * Validar se existe sessão WhatsApp ativa
+   */
+  async validateSession(ownerId: number): Promise<void> {
+    try {
+      // Buscar sessão ativa para o owner/tenant
+      const session = await queueDataStore.getActiveSession(ownerId);
+
+      if (!session) {
+        throw createQueueError(
+          `Nenhuma sessão WhatsApp ativa encontrada para tenant ${ownerId}. ` +
+            `Execute a conexão primeiro via POST /api/whatsapp/connect`,
+          QueueErrorCode.SESSION_NOT_FOUND
+        );
+      }
+
+      // Se está apenas CONNECTING, verificar se foi escaneado
+      if (session.status === "CONNECTING") {
+        throw createQueueError(
+          `Sessão WhatsApp ainda conectando para tenant ${ownerId}. ` +
+            `Escaneie o QR Code primeiro ou aguarde a conexão ser estabelecida.`,
+          QueueErrorCode.SESSION_CONNECTING
+        );
+      }
+
+      // Verificar se está realmente conectada
+      if (session.status !== "CONNECTED") {
+        throw createQueueError(
+          `Sessão WhatsApp não está conectada (status: ${session.status}) ` +
+            `para tenant ${ownerId}. Execute a conexão primeiro.`,
+          QueueErrorCode.SESSION_DISCONNECTED
+        );
+      }
+
+      logger.debug("Sessão WhatsApp validada", {
+        ownerId,
+        sessionName: session.sessionName,
+        status: session.status,
+        phoneNumber: session.phoneNumber,
+      });
+    } catch (error) {
+      logger.error("Falha na validação da sessão WhatsApp", error, { ownerId });
+      throw error;
+    }
+  }
+}
+
+export const whatsappChannel = new WhatsAppChannel();
@@ -0,0 +1,192 @@
+// src/services/emailService.test.ts
+
+import { createServer, AddressInfo, Server } from "net";
+import { queueService } from "./queueService";
+import { whatsappService } from "./whatsappService";
+import { queueStore } from "../repositories/queueStore";
+import { memoryQueueStore } from "../repositories/memoryQueueStore";
+import { memoryQueueDataStore } from "../repositories/memoryQueueDataStore";
+import { config } from "../config/config";
+import {
+  MessageChannelType,
+  MessageStatus,
+  QueueErrorCode,
+} from "../types/queue.types";
+
+// Sem banco: dados em memória; o e-mail sai pelo SMTP_OVERRIDE_HOST
+jest.mock("../config/database", () => ({ prisma: {} }));
+
+interface ReceivedMail {
+  from: string;
+  to: string[];
+  data: string;
+}
+
+/**
+ * Servidor SMTP mínimo (sem TLS/autenticação) no lugar do MailHog
+ */
+const startSmtpStandIn = async (received: ReceivedMail[]): Promise<Server> => {
+  const server = createServer((socket) => {
+    let mail: ReceivedMail = { from: "", to: [], data: "" };
+    let readingData = false;
+    let buffer = "";
+
+    socket.write("220 localhost ESMTP\r\n");
+
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString();
+
+      if (readingData) {
+        const end = buffer.indexOf("\r\n.\r\n");
+        if (end === -1) return;
+
+        mail.data = buffer.substring(0, end);
+        buffer = buffer.substring(end + 5);
+        readingData = false;
+        received.push(mail);
+        mail = { from: "", to: [], data: "" };
+        socket.write("250 OK: queued\r\n");
+      }
+
+      let lineEnd: number;
+      while (!readingData && (lineEnd = buffer.indexOf("\r\n")) !== -1) {
+        const line = buffer.substring(0, lineEnd);
+        buffer = buffer.substring(lineEnd + 2);
+        const command = line.substring(0, 4).toUpperCase();
+
+        if (command === "EHLO" || command === "HELO") {
+          socket.write("250 localhost\r\n");
+        } else if (command === "MAIL") {
+          mail.from = line;
+          socket.write("250 OK\r\n");
+        } else if (command === "RCPT") {
+          mail.to.push(line);
+          socket.write("250 OK\r\n");
+        } else if (command === "DATA") {
+          readingData = true;
+          socket.write("354 End data with <CR><LF>.<CR><LF>\r\n");
+        } else if (command === "QUIT") {
+          socket.end("221 Bye\r\n");
+        } else {
+          socket.write("250 OK\r\n");
+        }
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return server;
+};
+
+const appointment = {
+  id: 30,
+  owner: 1,
+  patient: 40,
+  dates: new Date("2099-03-10T00:00:00Z"),
+  times: "09:00",
+};
+
+describe("Fallback para e-mail", () => {
+  const received: ReceivedMail[] = [];
+  const originalSmtp = {
+    host: config.smtpOverrideHost,
+    port: config.smtpOverridePort,
+  };
+  let server: Server;
+
+  beforeAll(async () => {
+    server = await startSmtpStandIn(received);
+    config.smtpOverrideHost = "127.0.0.1";
+    config.smtpOverridePort = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    config.smtpOverrideHost = originalSmtp.host;
+    config.smtpOverridePort = originalSmtp.port;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received.length = 0;
+    memoryQueueStore.clear();
+    memoryQueueDataStore.clear();
+
+    memoryQueueDataStore.seedSchedule(appointment);
+    memoryQueueDataStore.seedPatient({
+      id: appointment.patient,
+      patients_name: "João Souza",
+      tel1: "11988887777",
+      email: "joao@example.com",
+    });
+    memoryQueueDataStore.seedTemplate({
+      id: 5,
+      owner_id: appointment.owner,
+      type: "confirmacao",
+      content: "Olá {nome}, confirma sua consulta?",
+    });
+
+    memoryQueueDataStore.seedSettings({
+      ownerId: appointment.owner,
+      channelPriority: [MessageChannelType.WHATSAPP, MessageChannelType.EMAIL],
+    });
+    memoryQueueDataStore.seedClinic({
+      id: appointment.owner,
+      friendlyName: "Clínica Sorriso",
+      smtpSender: "contato@sorriso.example",
+    });
+    memoryQueueDataStore.seedSession(appointment.owner);
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("envia por e-mail quando o paciente não tem WhatsApp", async () => {
+    // Apenas a Evolution API é simulada
+    jest
+      .spyOn(whatsappService, "checkWhatsAppNumbers")
+      .mockResolvedValue([
+        { exists: false, jid: "", number: "5511988887777" },
+      ]);
+    const sendWhatsApp = jest.spyOn(whatsappService, "sendMessage");
+
+    const enqueued = await queueService.enqueueMessage(
+      { scheduleId: appointment.id, templateType: "confirmacao" },
+      { processNow: false }
+    );
+    const result = await queueService.processQueueItem(enqueued.data.queueId);
+
+    expect(result).toMatchObject({
+      status: "sent",
+      channel: MessageChannelType.EMAIL,
+    });
+    expect(sendWhatsApp).not.toHaveBeenCalled();
+
+    expect(await queueStore.getById(enqueued.data.queueId)).toMatchObject({
+      status: "Enviada",
+      channel: MessageChannelType.EMAIL,
+    });
+
+    expect(received).toHaveLength(1);
+    expect(received[0].from).toBe("MAIL FROM:<contato@sorriso.example>");
+    expect(received[0].to).toEqual(["RCPT TO:<joao@example.com>"]);
+    // Corpo em quoted-printable (acentos codificados)
+    expect(received[0].data).toContain(
+      "Ol=C3=A1 Jo=C3=A3o Souza, confirma sua consulta?"
+    );
+
+    expect(memoryQueueDataStore.getMessages(appointment.id)).toEqual([
+      expect.objectContaining({
+        channel: MessageChannelType.WHATSAPP,
+        status: MessageStatus.ERRO,
+        errorCode: QueueErrorCode.PATIENT_NO_WHATSAPP,
+      }),
+      expect.objectContaining({
+        channel: MessageChannelType.EMAIL,
+        status: MessageStatus.ENVIADA,
+        externalId: expect.any(String),
+      }),
+    ]);
+  });
+});
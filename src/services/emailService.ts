@@ -0,0 +1,110 @@
+// src/services/emailService.ts
+// Envio de e-mail pelo SMTP da clínica (of_clients.smtp_*)
+
+import nodemailer from "nodemailer";
+import { queueDataStore } from "../repositories/queueDataStore";
+import { logger } from "../utils/logger";
+import { config } from "../config/config";
+import { createQueueError } from "../utils/queueErrors";
+import { QueueErrorCode } from "../types/queue.types";
+
+interface SmtpSettings {
+  host: string;
+  port: number;
+  user: string | null;
+  pass: string | null;
+  sender: string;
+  clinicName: string | null;
+}
+
+export class EmailService {
+  /**
+   * Envia e-mail em texto pelo SMTP do tenant
+   * @returns Message-ID gerado pelo servidor SMTP
+   */
+  async sendMessage(
+    ownerId: number,
+    to: string,
+    text: string
+  ): Promise<string> {
+    const smtp = await this.getSmtpSettings(ownerId);
+
+    if (!smtp) {
+      throw createQueueError(
+        `SMTP não configurado para o tenant ${ownerId}`,
+        QueueErrorCode.CHANNEL_NOT_CONFIGURED
+      );
+    }
+
+    const transporter = nodemailer.createTransport({
+      host: smtp.host,
+      port: smtp.port,
+      secure: smtp.port === 465,
+      auth: smtp.user ? { user: smtp.user, pass: smtp.pass ?? "" } : undefined,
+    });
+
+    const subject = smtp.clinicName
+      ? `Mensagem de ${smtp.clinicName}`
+      : "Mensagem da clínica";
+
+    try {
+      const info = await transporter.sendMail({
+        from: smtp.clinicName
+          ? { name: smtp.clinicName, address: smtp.sender }
+          : smtp.sender,
+        to,
+        subject,
+        text,
+      });
+
+      logger.info("E-mail enviado", {
+        ownerId,
+        to,
+        messageId: info.messageId,
+      });
+
+      return info.messageId;
+    } catch (error) {
+      logger.error("Erro ao enviar e-mail", error, { ownerId, to });
+      throw error;
+    } finally {
+      transporter.close();
+    }
+  }
+
+  /**
+   * Configuração SMTP da clínica
+   * Com SMTP_OVERRIDE_HOST todos os e-mails vão para esse servidor
+   * (ex: MailHog/smtp4dev em testes), sem autenticação.
+   */
+  private async getSmtpSettings(ownerId: number): Promise<SmtpSettings | null> {
+    const client = await queueDataStore.getClinicMail(ownerId);
+    const clinicName = client?.clinicName ?? null;
+
+    if (config.smtpOverrideHost) {
+      return {
+        host: config.smtpOverrideHost,
+        port: config.smtpOverridePort,
+        user: null,
+        pass: null,
+        sender: client?.smtpSender || client?.email || "no-reply@localhost",
+        clinicName,
+      };
+    }
+
+    if (!client?.smtpHost || !client?.smtpSender) {
+      return null;
+    }
+
+    return {
+      host: client.smtpHost,
+      port: client.smtpPort || 587,
+      user: client.smtpUser,
+      pass: client.smtpPass,
+      sender: client.smtpSender,
+      clinicName,
+    };
+  }
+}
+
+export const emailService = new EmailService();
@@ -14,8 +14,17 @@ import type {
   SendTextMessagePayload,
   SendTextMessageOptions,
   EvolutionInstanceData, // Novo tipo
+  EvolutionWhatsAppNumber,
 } from "../types/evolution.types";
 
+// Eventos assinados no webhook de cada instância
+const WEBHOOK_EVENTS = [
+  "QRCODE_UPDATED",
+  "CONNECTION_UPDATE",
+  "MESSAGES_UPSERT",
+  "MESSAGES_UPDATE",
+];
+
 export class EvolutionService {
   private baseURL: string;
 
@@ -249,9 +258,12 @@ export class EvolutionService {
       // Verificar webhook existente
       const existingWebhook = await this.getWebhookConfig(instanceName, apiKey);
 
+      const existingEvents: string[] = existingWebhook?.webhook?.events || [];
+
       if (
         existingWebhook?.webhook?.url === webhookUrl &&
-        existingWebhook?.webhook?.enabled
+        existingWebhook?.webhook?.enabled &&
+        WEBHOOK_EVENTS.every((event) => existingEvents.includes(event))
       ) {
         logger.evolution("WEBHOOK_ALREADY_CONFIGURED", instanceName, {
           webhookUrl,
@@ -266,7 +278,7 @@ export class EvolutionService {
           url: webhookUrl,
           webhookByEvents: true,
           webhookBase64: true,
-          events: ["QRCODE_UPDATED", "CONNECTION_UPDATE", "MESSAGES_UPSERT"],
+          events: WEBHOOK_EVENTS,
         },
       };
 
@@ -550,6 +562,40 @@ export class EvolutionService {
     }
   }
 
+  /**
+   * Verificar se os números possuem WhatsApp
+   */
+  async checkWhatsAppNumbers(
+    instanceName: string,
+    apiKey: string,
+    phoneNumbers: string[]
+  ): Promise<EvolutionWhatsAppNumber[]> {
+    try {
+      logger.evolution("CHECK_WHATSAPP_NUMBERS", instanceName, {
+        count: phoneNumbers.length,
+      });
+
+      const axiosInstance = this.createAxiosInstance(apiKey);
+      const response = await axiosInstance.post(
+        `/chat/whatsappNumbers/${instanceName}`,
+        { numbers: phoneNumbers }
+      );
+
+      return Array.isArray(response.data) ? response.data : [];
+    } catch (error: any) {
+      logger.evolution(
+        "CHECK_WHATSAPP_NUMBERS_ERROR",
+        instanceName,
+        {
+          errorStatus: error.response?.status,
+          errorMessage: error.message,
+        },
+        error
+      );
+      throw error;
+    }
+  }
+
   /**
    * Forçar geração de QR Code (conectar instância)
    */
@@ -2,7 +2,7 @@
 // Handler corrigido conforme lógica correta
 
 import { waMessageRepository } from "../repositories/waMessageRepository";
-import { waQueueRepository } from "../repositories/waQueueRepository";
+import { queueStore } from "../repositories/queueStore";
 import { waTemplateRepository } from "../repositories/waTemplateRepository";
 import { scheduleRepository } from "../repositories/scheduleRepository";
 import { whatsappService } from "./whatsappService";
@@ -13,6 +13,7 @@ import {
   IncomingMessageData,
   MessageResponse,
 } from "../types/messageHandler.types";
+import { QueuePriority } from "../types/queue.types";
 
 export class IncomingMessageHandler {
   /**
@@ -276,17 +277,19 @@ export class IncomingMessageHandler {
       // 4. Adicionar na fila
       logger.info("📤 HANDLER - Adicionando na fila");
 
-      await waQueueRepository.enqueue({
+      const queueId = await queueStore.enqueue({
         schedule_id: scheduleId,
         owner_id: ownerId,
         user_id: lastMessage.user_id || 1,
         template_id: template.id,
+        priority: QueuePriority.TRANSACTIONAL,
+        exempt_limits: true,
       });
 
-      // 5. Processar fila imediatamente
-      logger.info("🚀 HANDLER - Processando fila");
+      // 5. Processar o item recém-criado imediatamente
+      logger.info("🚀 HANDLER - Processando fila", { queueId });
 
-      await queueService.processQueueItem(scheduleId);
+      await queueService.processQueueItem(queueId);
 
       logger.info("🎉 HANDLER - Ação processada com sucesso", {
         action,
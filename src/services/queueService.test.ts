@@ -0,0 +1,242 @@
+// src/services/queueService.test.ts
+
+import { queueService } from "./queueService";
+import { queueStore } from "../repositories/queueStore";
+import { memoryQueueStore } from "../repositories/memoryQueueStore";
+import { memoryQueueDataStore } from "../repositories/memoryQueueDataStore";
+import { whatsappService } from "./whatsappService";
+import { config } from "../config/config";
+import {
+  MessageChannelType,
+  MessageStatus,
+  QueueErrorCode,
+} from "../types/queue.types";
+
+// Sem banco: QUEUE_STORE=memory (jest.setup.ts) usa fila e dados em memória
+jest.mock("../config/database", () => ({ prisma: {} }));
+
+const appointment = {
+  id: 10,
+  owner: 1,
+  patient: 20,
+  dates: new Date("2099-03-10T00:00:00Z"),
+  times: "14:30",
+};
+
+const enqueueItem = () =>
+  queueStore.enqueue({
+    schedule_id: appointment.id,
+    owner_id: appointment.owner,
+    user_id: 1,
+    template_id: 3,
+    schedule_dates: appointment.dates,
+    schedule_times: appointment.times,
+  });
+
+const seedSchedule = (sts: number | null) =>
+  memoryQueueDataStore.seedSchedule({ ...appointment, sts });
+
+describe("QueueService.handleScheduleChange", () => {
+  beforeEach(() => {
+    memoryQueueStore.clear();
+    memoryQueueDataStore.clear();
+  });
+
+  it("cancela itens de agendamentos com status de cancelamento", async () => {
+    const queueId = await enqueueItem();
+    seedSchedule(config.scheduleCancelledStatuses[0]);
+
+    const result = await queueService.handleScheduleChange(appointment.id);
+
+    expect(result.items).toEqual([
+      {
+        queueId,
+        action: "cancelled",
+        reason: QueueErrorCode.SCHEDULE_CANCELLED,
+      },
+    ]);
+    expect((await queueStore.getById(queueId))?.status).toBe("Cancelada");
+  });
+
+  it("cancela itens de agendamentos removidos", async () => {
+    const queueId = await enqueueItem();
+
+    const result = await queueService.handleScheduleChange(appointment.id);
+
+    expect(result.items[0]).toMatchObject({
+      queueId,
+      action: "cancelled",
+      reason: QueueErrorCode.SCHEDULE_NOT_FOUND,
+    });
+  });
+
+  it("mantém itens de agendamentos ativos sem alteração", async () => {
+    const queueId = await enqueueItem();
+    seedSchedule(1);
+
+    const result = await queueService.handleScheduleChange(appointment.id);
+
+    expect(result.items).toEqual([{ queueId, action: "unchanged" }]);
+    expect((await queueStore.getById(queueId))?.status).toBe("Aguardando");
+  });
+});
+
+describe("QueueService com backend em memória", () => {
+  beforeEach(() => {
+    memoryQueueStore.clear();
+    memoryQueueDataStore.clear();
+
+    memoryQueueDataStore.seedSchedule({ ...appointment, sts: 1 });
+    memoryQueueDataStore.seedPatient({
+      id: appointment.patient,
+      patients_name: "Maria da Silva",
+      tel1: "11999999999",
+    });
+    memoryQueueDataStore.seedTemplate({
+      id: 3,
+      owner_id: appointment.owner,
+      type: "confirmacao",
+      content: "Olá {nome}, confirma sua consulta na {nome_fantasia}?",
+    });
+
+    memoryQueueDataStore.seedClinic({
+      id: appointment.owner,
+      friendlyName: "Clínica Sorriso",
+    });
+    memoryQueueDataStore.seedSession(appointment.owner);
+
+    // Apenas a Evolution API é simulada
+    jest
+      .spyOn(whatsappService, "checkWhatsAppNumbers")
+      .mockImplementation(async (_tenantId, numbers) =>
+        numbers.map((number) => ({
+          exists: true,
+          jid: `${number}@s.whatsapp.net`,
+          number,
+        }))
+      );
+    jest
+      .spyOn(whatsappService, "sendMessage")
+      .mockResolvedValue({ key: { id: "MSG-1" } } as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("enfileira, processa e registra o envio sem banco", async () => {
+    const enqueued = await queueService.enqueueMessage(
+      { scheduleId: appointment.id, templateType: "confirmacao" },
+      { processNow: false }
+    );
+
+    const result = await queueService.processQueueItem(enqueued.data.queueId);
+
+    expect(result).toMatchObject({
+      queueId: enqueued.data.queueId,
+      status: "sent",
+      channel: MessageChannelType.WHATSAPP,
+    });
+    expect(whatsappService.sendMessage).toHaveBeenCalledWith(
+      appointment.owner,
+      expect.any(String),
+      "Olá Maria da Silva, confirma sua consulta na Clínica Sorriso?"
+    );
+
+    const item = await queueStore.getById(enqueued.data.queueId);
+    expect(item).toMatchObject({
+      status: "Enviada",
+      channel: MessageChannelType.WHATSAPP,
+      attempts: 1,
+    });
+    expect(memoryQueueDataStore.getMessages(appointment.id)).toEqual([
+      expect.objectContaining({
+        queueId: enqueued.data.queueId,
+        status: MessageStatus.ENVIADA,
+        externalId: "MSG-1",
+      }),
+    ]);
+    expect(
+      (await memoryQueueDataStore.getSchedule(appointment.id))?.whatsConf
+    ).toBe(true);
+  });
+
+  it("não registra envio quando o lease expira durante o envio", async () => {
+    const enqueued = await queueService.enqueueMessage(
+      { scheduleId: appointment.id, templateType: "confirmacao" },
+      { processNow: false }
+    );
+    const queueId = enqueued.data.queueId;
+
+    // Outra réplica reserva o item enquanto a Evolution API responde
+    jest
+      .spyOn(whatsappService, "sendMessage")
+      .mockImplementation(async () => {
+        (memoryQueueStore as any).items.get(queueId).locked_by = "replica-2";
+        return { key: { id: "MSG-1" } } as any;
+      });
+
+    const result = await queueService.processQueueItem(queueId);
+
+    expect(result).toEqual({ queueId, status: "skipped" });
+    expect((await queueStore.getById(queueId))?.status).toBe("Aguardando");
+    expect(memoryQueueDataStore.getMessages(appointment.id)).toEqual([]);
+    expect(
+      (await memoryQueueDataStore.getSchedule(appointment.id))?.whatsConf
+    ).toBeFalsy();
+  });
+
+  it("recusa enfileirar sem sessão WhatsApp conectada", async () => {
+    memoryQueueDataStore.seedSession(appointment.owner, {
+      status: "DISCONNECTED",
+    });
+
+    await expect(
+      queueService.enqueueMessage(
+        { scheduleId: appointment.id, templateType: "confirmacao" },
+        { processNow: false }
+      )
+    ).rejects.toThrow(/Nenhuma sessão WhatsApp ativa/);
+  });
+
+  it("devolve o histórico do agendamento, mais recente primeiro", async () => {
+    const enqueued = await queueService.enqueueMessage(
+      { scheduleId: appointment.id, templateType: "confirmacao" },
+      { processNow: false }
+    );
+    await queueService.processQueueItem(enqueued.data.queueId);
+
+    expect(await queueService.getMessageHistory(appointment.id)).toEqual([
+      expect.objectContaining({
+        schedule_id: appointment.id,
+        queue_id: enqueued.data.queueId,
+        status: MessageStatus.ENVIADA,
+        external_id: "MSG-1",
+        template_type: "confirmacao",
+      }),
+    ]);
+  });
+
+  it("lista o item com o tipo do template", async () => {
+    const enqueued = await queueService.enqueueMessage(
+      { scheduleId: appointment.id, templateType: "confirmacao" },
+      { processNow: false }
+    );
+
+    const rows = await queueStore.list({
+      templateType: "confirmacao",
+      limit: 10,
+    });
+
+    expect(rows).toEqual([
+      expect.objectContaining({
+        id: enqueued.data.queueId,
+        template_type: "confirmacao",
+        patients_name: "Maria da Silva",
+      }),
+    ]);
+    expect(
+      await queueStore.getPendingBySchedule(appointment.id)
+    ).toEqual([expect.objectContaining({ template_type: "confirmacao" })]);
+  });
+});
@@ -2,113 +2,222 @@
 // Serviço para gerenciamento de filas de mensagens - CORRIGIDO
 
 import { prisma } from "../config/database";
-import { whatsappService } from "./whatsappService";
-import { logger } from "../utils/logger";
+import { queueStore, QueueItem } from "../repositories/queueStore";
 import {
-  formatPhoneForWhatsApp,
-  formatDate,
-  formatTime,
-} from "../utils/formatters";
+  queueDataStore,
+  QueueMessageHistoryRow,
+  QueueMessageLog,
+  QueueSchedule,
+} from "../repositories/queueDataStore";
+import { scheduleRepository } from "../repositories/scheduleRepository";
+import { logger } from "../utils/logger";
+import { formatPhoneForWhatsApp } from "../utils/formatters";
+import { buildTemplateContext, renderTemplate } from "../utils/templateEngine";
+import { templateService } from "./templateService";
 import {
   QueueStatus,
+  QueueErrorCode,
   MessageDirection,
   MessageStatus,
+  MessageChannelType,
   EnqueueMessageRequest,
-  ProcessedMessage,
+  ProcessItemResult,
+  QueueItemFilters,
+  QueueItemPage,
+  QueueItemView,
+  QueueBulkAction,
+  QueueBulkResult,
+  DeadLetterFilters,
+  DeadLetterGroup,
+  RequeueResult,
+  BulkEnqueueRequest,
+  BulkEnqueueItemResult,
+  BulkEnqueueResult,
+  ScheduleChangeItemResult,
+  ScheduleChangeResult,
+  QueueRunSummary,
 } from "../types/queue.types";
+import {
+  classifySendError,
+  computeRetryAt,
+  createQueueError,
+} from "../utils/queueErrors";
+import { getNextSendWindowStart } from "../utils/sendWindow";
+import { sendRateLimiter } from "./sendRateLimiter";
+import {
+  getMessageChannel,
+  whatsappChannel,
+  ChannelPatient,
+} from "./channels";
+import { resolveChannelPriority } from "../utils/channelPriority";
+import {
+  REMINDER_TEMPLATE_TYPE,
+  computeReminderSendAt,
+  getAppointmentAt,
+} from "../utils/reminderSchedule";
+import { config } from "../config/config";
 import { Prisma } from "@prisma/client";
 
+// Dados atuais do agendamento de um item da fila
+// (current_schedule_id null = agendamento não existe mais)
+interface ScheduleContext
+  extends Omit<QueueSchedule, "id" | "whatsConf" | "dates"> {
+  current_schedule_id: number | null;
+  dates: Date | null;
+  template_type: string | null;
+}
+
+// Item da fila em processamento, com os dados atuais do agendamento
+type ProcessingQueueItem = QueueItem & ScheduleContext;
+
 export class QueueService {
   /**
    * Adiciona uma mensagem na fila para envio
+   * @param options.processNow Envia imediatamente (false = deixa para o processador)
    */
-  async enqueueMessage(data: EnqueueMessageRequest): Promise<any> {
-    const { scheduleId, userId = 1, templateType = "confirmacao" } = data;
+  async enqueueMessage(
+    data: EnqueueMessageRequest,
+    options: { processNow?: boolean } = {}
+  ): Promise<any> {
+    const { processNow = true } = options;
+    const {
+      scheduleId,
+      userId = 1,
+      templateType = "confirmacao",
+      sendAt,
+      priority,
+      idempotencyKey,
+    } = data;
+    const isScheduled = !!sendAt && sendAt.getTime() > Date.now();
 
     try {
       // 1. Buscar informações do agendamento
-      const schedule = await prisma.$queryRaw<any[]>`
-        SELECT id, owner, patient, dates, times, procedures, whatsConf
-        FROM of_schedules 
-        WHERE id = ${scheduleId}
-        LIMIT 1
-      `;
+      const scheduleData = await queueDataStore.getSchedule(scheduleId);
 
-      if (!schedule || schedule.length === 0) {
+      if (!scheduleData) {
         throw new Error(`Agendamento ${scheduleId} não encontrado`);
       }
 
-      const scheduleData = schedule[0];
-      const ownerId = scheduleData.owner;
+      const ownerId = Number(scheduleData.owner);
       const patientId = scheduleData.patient;
 
       // 2. Buscar template ativo para o owner
-      const template = await prisma.$queryRaw<any[]>`
-        SELECT id, owner_id, type, content, active
-        FROM wa_templates
-        WHERE owner_id = ${ownerId} 
-        AND type = ${templateType}
-        AND active = 1
-        LIMIT 1
-      `;
+      const templateData = await queueDataStore.getActiveTemplate(
+        ownerId,
+        templateType
+      );
 
-      if (!template || template.length === 0) {
+      if (!templateData) {
         throw new Error(
           `Template '${templateType}' não encontrado ou inativo para owner ${ownerId}`
         );
       }
 
-      const templateData = template[0];
+      // Repetição da mesma requisição ou envio equivalente ainda ativo
+      const existing = await this.findExistingQueueItem(
+        ownerId,
+        scheduleId,
+        templateData.id,
+        idempotencyKey
+      );
+
+      if (existing) {
+        return this.buildDuplicateResponse(existing, templateType);
+      }
 
       // 3. Buscar dados do paciente
-      const patient = await prisma.$queryRaw<any[]>`
-        SELECT id, patients_name, tel1, tel2, email
-        FROM all_patients
-        WHERE id = ${patientId}
-        LIMIT 1
-      `;
+      const patientData = patientId
+        ? await queueDataStore.getPatient(patientId)
+        : null;
 
-      if (!patient || patient.length === 0) {
+      if (!patientData) {
         throw new Error(`Paciente ${patientId} não encontrado`);
       }
 
-      const patientData = patient[0];
+      // Canais que serão tentados no envio (template > tenant > .env)
+      const settings = await queueDataStore.getSettings(ownerId);
+      const channels = resolveChannelPriority(
+        templateData.channels,
+        settings.channelPriority
+      );
 
-      // Verificar se tem telefone
+      // Verificar se o paciente tem contato em algum dos canais
       const phoneNumber = patientData.tel1 || patientData.tel2;
-      if (!phoneNumber) {
+      const reachable = channels.some((channel) =>
+        channel === MessageChannelType.EMAIL ? !!patientData.email : !!phoneNumber
+      );
+
+      if (!reachable) {
         throw new Error(
-          `Paciente ${patientData.patients_name} não possui telefone cadastrado`
+          `Paciente ${patientData.patients_name} não possui contato cadastrado ` +
+            `para os canais ${channels.join(", ")}`
         );
       }
 
       // 4. Verificar se existe sessão WhatsApp ativa ANTES de enfileirar
-      await this.validateWhatsAppSession(ownerId);
+      // (com outros canais na lista, a falha do WhatsApp é tratada no envio)
+      if (channels.length === 1 && channels[0] === MessageChannelType.WHATSAPP) {
+        await whatsappChannel.validateSession(ownerId);
+      }
 
       // 5. Adicionar na fila
-      const queueItem = await prisma.$executeRaw`
-        INSERT INTO wa_queue (schedule_id, owner_id, user_id, template_id, status, created_at)
-        VALUES (${scheduleId}, ${ownerId}, ${userId}, ${templateData.id}, ${QueueStatus.AGUARDANDO}, NOW())
-      `;
+      let queueId: number;
+      try {
+        queueId = await queueStore.enqueue({
+          schedule_id: scheduleId,
+          owner_id: ownerId,
+          user_id: userId,
+          template_id: templateData.id,
+          send_at: isScheduled ? sendAt : null,
+          priority,
+          idempotency_key: idempotencyKey,
+          schedule_dates: scheduleData.dates,
+          schedule_times: scheduleData.times,
+        });
+      } catch (error) {
+        // Requisição concorrente com a mesma Idempotency-Key venceu o INSERT
+        if (idempotencyKey && this.isDuplicateKeyError(error)) {
+          const concurrent = await queueStore.findByIdempotencyKey(
+            ownerId,
+            idempotencyKey
+          );
+          if (concurrent) {
+            return this.buildDuplicateResponse(concurrent, templateType);
+          }
+        }
+        throw error;
+      }
 
       logger.info("Mensagem adicionada à fila", {
+        queueId,
         scheduleId,
         ownerId,
         patientName: patientData.patients_name,
         templateType,
+        sendAt: isScheduled ? sendAt : undefined,
       });
 
-      // 6. Processar mensagem imediatamente
-      await this.processQueueItem(scheduleId);
+      // 6. Processar mensagem imediatamente (envios agendados ficam para o processador)
+      const processed = processNow && !isScheduled;
+      if (processed) {
+        await this.processQueueItem(queueId);
+      }
 
       return {
         success: true,
-        message: "Mensagem adicionada à fila e processada",
+        message: isScheduled
+          ? "Mensagem agendada na fila"
+          : processed
+          ? "Mensagem adicionada à fila e processada"
+          : "Mensagem adicionada à fila",
         data: {
+          queueId,
           scheduleId,
           patientName: patientData.patients_name,
-          phoneNumber: formatPhoneForWhatsApp(phoneNumber),
+          phoneNumber: phoneNumber ? formatPhoneForWhatsApp(phoneNumber) : null,
+          channels,
           templateType,
+          sendAt: isScheduled ? sendAt : null,
         },
       };
     } catch (error) {
@@ -118,328 +227,841 @@ export class QueueService {
   }
 
   /**
-   * Validar se existe sessão WhatsApp ativa
+   * Busca item já existente para a mesma requisição (Idempotency-Key)
+   * ou para o mesmo agendamento/template ainda ativo
    */
-  private async validateWhatsAppSession(ownerId: number): Promise<void> {
-    try {
-      // Buscar sessão ativa para o owner/tenant
-      const sessions = await prisma.$queryRaw<any[]>`
-        SELECT sessionName, status, phoneNumber, connectedAt
-        FROM whatsapp_sessions 
-        WHERE tenantId = ${ownerId.toString()}
-        AND status IN ('CONNECTED', 'CONNECTING')
-        ORDER BY 
-          CASE 
-            WHEN status = 'CONNECTED' THEN 1 
-            WHEN status = 'CONNECTING' THEN 2 
-          END,
-          connectedAt DESC
-        LIMIT 1
-      `;
+  private async findExistingQueueItem(
+    ownerId: number,
+    scheduleId: number,
+    templateId: number,
+    idempotencyKey?: string
+  ): Promise<QueueItem | null> {
+    if (idempotencyKey) {
+      const byKey = await queueStore.findByIdempotencyKey(
+        ownerId,
+        idempotencyKey
+      );
+      if (byKey) return byKey;
+    }
 
-      if (!sessions || sessions.length === 0) {
-        throw new Error(
-          `Nenhuma sessão WhatsApp ativa encontrada para tenant ${ownerId}. ` +
-            `Execute a conexão primeiro via POST /api/whatsapp/connect`
-        );
-      }
+    const sentSince = new Date(
+      Date.now() - config.queueDedupeWindowHours * 60 * 60 * 1000
+    );
 
-      const session = sessions[0];
+    return queueStore.findDuplicate(scheduleId, templateId, sentSince);
+  }
 
-      // Se está apenas CONNECTING, verificar se foi escaneado
-      if (session.status === "CONNECTING") {
-        throw new Error(
-          `Sessão WhatsApp ainda conectando para tenant ${ownerId}. ` +
-            `Escaneie o QR Code primeiro ou aguarde a conexão ser estabelecida.`
-        );
+  /**
+   * Resposta de enfileiramento para item já existente (nada é enviado)
+   */
+  private buildDuplicateResponse(item: QueueItem, templateType: string) {
+    logger.info("Enfileiramento duplicado ignorado", {
+      queueId: item.id,
+      scheduleId: item.schedule_id,
+      status: item.status,
+      templateType,
+    });
+
+    return {
+      success: true,
+      message: "Mensagem já existe na fila (duplicada)",
+      data: {
+        queueId: Number(item.id),
+        scheduleId: item.schedule_id,
+        templateType,
+        status: item.status,
+        sendAt: item.send_at ?? null,
+        sentAt: item.sent_at ?? null,
+        duplicate: true,
+      },
+    };
+  }
+
+  /**
+   * Violação de chave única do MySQL (1062) vinda de SQL raw
+   */
+  private isDuplicateKeyError(error: unknown): boolean {
+    return (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      (error.code === "P2002" ||
+        (error.code === "P2010" && error.meta?.code === "1062"))
+    );
+  }
+
+  /**
+   * Reavalia itens pendentes após alteração do agendamento
+   * (chamado pelo sistema de agendamentos)
+   * @param options.cancelled Agendamento cancelado na origem
+   * @param options.ownerId Restringe aos itens deste owner (chaves de tenant)
+   */
+  async handleScheduleChange(
+    scheduleId: number,
+    options: { cancelled?: boolean; ownerId?: number } = {}
+  ): Promise<ScheduleChangeResult> {
+    const schedule = await queueDataStore.getSchedule(scheduleId);
+    const pendingItems = await queueStore.getPendingBySchedule(
+      scheduleId
+    );
+
+    const items: ScheduleChangeItemResult[] = [];
+
+    for (const item of pendingItems) {
+      if (options.ownerId !== undefined && item.owner_id !== options.ownerId) {
+        continue;
       }
 
-      // Verificar se está realmente conectada
-      if (session.status !== "CONNECTED") {
-        throw new Error(
-          `Sessão WhatsApp não está conectada (status: ${session.status}) ` +
-            `para tenant ${ownerId}. Execute a conexão primeiro.`
+      if (options.cancelled) {
+        const cancelled = await this.cancelForSchedule(
+          item.id,
+          QueueErrorCode.SCHEDULE_CANCELLED,
+          `Agendamento ${scheduleId} cancelado`
         );
+        items.push(cancelled);
+        continue;
       }
 
-      logger.debug("Sessão WhatsApp validada", {
-        ownerId,
-        sessionName: session.sessionName,
-        status: session.status,
-        phoneNumber: session.phoneNumber,
+      const change = await this.reconcileWithSchedule(item, schedule);
+      items.push({ queueId: Number(item.id), ...change });
+    }
+
+    logger.info("Alteração de agendamento processada", {
+      scheduleId,
+      cancelled: options.cancelled,
+      items: items.map((item) => `${item.queueId}:${item.action}`),
+    });
+
+    return { scheduleId, items };
+  }
+
+  /**
+   * Compara o item com o estado atual do agendamento e aplica a mudança:
+   * cancela (agendamento removido, cancelado ou já passado), recalcula o
+   * envio do lembrete ou apenas registra a nova data (a mensagem é
+   * renderizada no envio com os dados atuais).
+   */
+  private async reconcileWithSchedule(
+    item: {
+      id: number;
+      owner_id: number;
+      send_at?: Date | null;
+      schedule_dates?: Date | null;
+      schedule_times?: string | null;
+      template_type?: string | null;
+    },
+    schedule: { dates: Date; times: string | null; sts: number | null } | null,
+    now: Date = new Date()
+  ): Promise<Omit<ScheduleChangeItemResult, "queueId">> {
+    const queueId = Number(item.id);
+
+    if (!schedule) {
+      return this.cancelForSchedule(
+        queueId,
+        QueueErrorCode.SCHEDULE_NOT_FOUND,
+        "Agendamento não encontrado"
+      );
+    }
+
+    if (
+      schedule.sts !== null &&
+      config.scheduleCancelledStatuses.includes(Number(schedule.sts))
+    ) {
+      return this.cancelForSchedule(
+        queueId,
+        QueueErrorCode.SCHEDULE_CANCELLED,
+        `Agendamento cancelado (status ${schedule.sts})`
+      );
+    }
+
+    // Itens sem registro da data original (ex: respostas de conversa)
+    if (!item.schedule_dates) {
+      return { action: "unchanged" };
+    }
+
+    const sameDate =
+      new Date(item.schedule_dates).toISOString().substring(0, 10) ===
+      new Date(schedule.dates).toISOString().substring(0, 10);
+
+    if (sameDate && (item.schedule_times ?? null) === (schedule.times ?? null)) {
+      return { action: "unchanged" };
+    }
+
+    const settings = await queueDataStore.getSettings(item.owner_id);
+
+    if (
+      getAppointmentAt(schedule.dates, schedule.times, settings.timezone) <= now
+    ) {
+      return this.cancelForSchedule(
+        queueId,
+        QueueErrorCode.APPOINTMENT_PASSED,
+        "Consulta remarcada para data que já passou"
+      );
+    }
+
+    // Lembretes agendados acompanham a nova data da consulta
+    if (item.template_type === REMINDER_TEMPLATE_TYPE && item.send_at) {
+      const sendAt = computeReminderSendAt(schedule, settings, now);
+
+      await queueStore.applyScheduleChange(
+        queueId,
+        schedule.dates,
+        schedule.times,
+        sendAt
+      );
+
+      logger.info("Lembrete reagendado após alteração da consulta", {
+        queueId,
+        dates: schedule.dates,
+        times: schedule.times,
+        sendAt,
       });
-    } catch (error: any) {
-      logger.error("Falha na validação da sessão WhatsApp", error, { ownerId });
-      throw error;
+
+      return { action: "rescheduled", sendAt };
     }
+
+    await queueStore.applyScheduleChange(
+      queueId,
+      schedule.dates,
+      schedule.times,
+      item.send_at ?? null
+    );
+
+    logger.info("Item atualizado após alteração da consulta", {
+      queueId,
+      dates: schedule.dates,
+      times: schedule.times,
+    });
+
+    return { action: "updated", sendAt: item.send_at ?? null };
   }
 
   /**
-   * Processa um item da fila
+   * Cancela item por mudança no agendamento
    */
-  async processQueueItem(scheduleId: number): Promise<void> {
-    try {
-      // 1. Buscar item da fila
-      const queueItems = await prisma.$queryRaw<any[]>`
-        SELECT q.*, s.owner, s.patient, s.dates, s.times, s.procedures
-        FROM wa_queue q
-        JOIN of_schedules s ON q.schedule_id = s.id
-        WHERE q.schedule_id = ${scheduleId}
-        AND q.status = ${QueueStatus.AGUARDANDO}
-        ORDER BY q.created_at ASC
-        LIMIT 1
-      `;
+  private async cancelForSchedule(
+    queueId: number,
+    reason: QueueErrorCode,
+    message: string
+  ): Promise<ScheduleChangeItemResult> {
+    await queueStore.cancelWithReason(queueId, reason, message);
+
+    logger.info("Item da fila cancelado por alteração do agendamento", {
+      queueId,
+      reason,
+    });
 
-      if (!queueItems || queueItems.length === 0) {
-        logger.info("Nenhum item na fila para processar", { scheduleId });
-        return;
-      }
+    return { queueId, action: "cancelled", reason };
+  }
+
+  /**
+   * Enfileira vários agendamentos sem enviar na requisição
+   * Cada agendamento é validado como em enqueueMessage; o envio fica
+   * para o processador da fila.
+   * @param ownerId Restringe aos agendamentos deste owner (chaves de tenant)
+   */
+  async bulkEnqueue(
+    request: BulkEnqueueRequest,
+    ownerId?: number
+  ): Promise<BulkEnqueueResult> {
+    const results: BulkEnqueueItemResult[] = [];
 
-      const queueItem = queueItems[0];
+    for (const scheduleId of request.scheduleIds) {
+      try {
+        if (ownerId !== undefined) {
+          const schedule = await queueDataStore.getSchedule(scheduleId);
+
+          if (!schedule || Number(schedule.owner) !== ownerId) {
+            results.push({
+              scheduleId,
+              success: false,
+              error: `Agendamento ${scheduleId} não encontrado`,
+            });
+            continue;
+          }
+        }
 
-      // 2. Buscar dados do paciente
-      const patients = await prisma.$queryRaw<any[]>`
-        SELECT id, patients_name, tel1, tel2
-        FROM all_patients
-        WHERE id = ${queueItem.patient}
-        LIMIT 1
-      `;
+        const result = await this.enqueueMessage(
+          {
+            scheduleId,
+            userId: request.userId,
+            templateType: request.templateType,
+            sendAt: request.sendAt,
+            priority: request.priority,
+          },
+          { processNow: false }
+        );
 
-      if (!patients || patients.length === 0) {
-        await this.updateQueueStatus(queueItem.id, QueueStatus.ERRO);
-        throw new Error(`Paciente ${queueItem.patient} não encontrado`);
+        results.push({
+          scheduleId,
+          success: true,
+          queueId: result.data.queueId,
+          duplicate: result.data.duplicate,
+        });
+      } catch (error) {
+        results.push({
+          scheduleId,
+          success: false,
+          error: (error as Error).message,
+        });
       }
+    }
 
-      const patient = patients[0];
-      const phoneNumber = patient.tel1 || patient.tel2;
+    const enqueued = results.filter((result) => result.success).length;
 
-      if (!phoneNumber) {
-        await this.updateQueueStatus(queueItem.id, QueueStatus.ERRO);
-        throw new Error("Paciente sem telefone cadastrado");
-      }
+    logger.info("Enfileiramento em lote concluído", {
+      requested: request.scheduleIds.length,
+      enqueued,
+      templateType: request.templateType,
+    });
 
-      // 3. Buscar template
-      const templates = await prisma.$queryRaw<any[]>`
-        SELECT content
-        FROM wa_templates
-        WHERE id = ${queueItem.template_id}
-        LIMIT 1
-      `;
+    return {
+      requested: request.scheduleIds.length,
+      enqueued,
+      failed: results.length - enqueued,
+      results,
+    };
+  }
 
-      if (!templates || templates.length === 0) {
-        await this.updateQueueStatus(queueItem.id, QueueStatus.ERRO);
-        throw new Error(`Template ${queueItem.template_id} não encontrado`);
-      }
+  /**
+   * Dados atuais do agendamento e tipo do template do item
+   * (current_schedule_id null = agendamento não existe mais)
+   */
+  private async getScheduleContext(item: QueueItem): Promise<ScheduleContext> {
+    const [schedule, template] = await Promise.all([
+      queueDataStore.getSchedule(item.schedule_id),
+      queueDataStore.getTemplate(item.template_id),
+    ]);
+    const templateType = template?.type ?? null;
+
+    if (!schedule) {
+      return {
+        current_schedule_id: null,
+        owner: item.owner_id,
+        patient: null,
+        sts: null,
+        dates: null,
+        times: null,
+        procedures: null,
+        partner: null,
+        price: null,
+        sedation: null,
+        surgery: null,
+        laboratory: null,
+        template_type: templateType,
+      };
+    }
+
+    // O id do agendamento não pode sobrescrever o id do item da fila
+    const { id, whatsConf, ...scheduleFields } = schedule;
+
+    return {
+      ...scheduleFields,
+      current_schedule_id: id,
+      template_type: templateType,
+    };
+  }
+
+  /**
+   * Processa um item da fila
+   * Os canais são tentados na ordem de prioridade; falha permanente (ou
+   * tentativas esgotadas) passa para o próximo canal. Falhas transitórias
+   * reagendam o item com backoff exponencial; se nenhum canal entregar,
+   * o item é marcado como Erro.
+   * @param options.ignoreSchedule Envia mesmo antes de send_at/next_retry_at (envio manual)
+   */
+  async processQueueItem(
+    queueId: number,
+    options: { ignoreSchedule?: boolean } = {}
+  ): Promise<ProcessItemResult> {
+    const now = new Date();
+    const dueAt = options.ignoreSchedule ? null : now;
 
-      const template = templates[0];
+    // 1. Buscar item da fila
+    const storedItem = await queueStore.getAvailable(queueId, now, dueAt);
 
-      // 4. Processar mensagem (substituir variáveis)
-      const processedMessage = this.processTemplate(template.content, {
-        nome: patient.patients_name,
-        data: formatDate(queueItem.dates),
-        hora: formatTime(queueItem.times),
-        procedimentos: queueItem.procedures || "Consulta",
+    if (!storedItem) {
+      logger.info("Item da fila não disponível para processamento", {
+        queueId,
       });
+      return { queueId, status: "skipped" };
+    }
 
-      // 5. Formatar telefone para WhatsApp
-      const formattedPhone = formatPhoneForWhatsApp(phoneNumber);
+    const queueItem: ProcessingQueueItem = {
+      ...storedItem,
+      ...(await this.getScheduleContext(storedItem)),
+    };
+    const scheduleId = queueItem.schedule_id;
+
+    // Agendamento cancelado ou alterado depois de enfileirar
+    const schedule =
+      queueItem.current_schedule_id && queueItem.dates
+        ? { dates: queueItem.dates, times: queueItem.times, sts: queueItem.sts }
+        : null;
+    const change = await this.reconcileWithSchedule(queueItem, schedule, now);
+
+    // Sem agendamento o item sempre é cancelado
+    if (change.action === "cancelled" || !schedule) {
+      return { queueId, status: "cancelled", errorCode: change.reason };
+    }
 
-      // 6. VALIDAR NOVAMENTE a sessão antes de enviar
-      try {
-        await this.validateWhatsAppSession(queueItem.owner);
-      } catch (validationError) {
-        await this.updateQueueStatus(queueItem.id, QueueStatus.ERRO);
-        await this.logMessage({
-          scheduleId: queueItem.schedule_id,
-          owner: queueItem.owner,
-          userId: queueItem.user_id,
-          templateId: queueItem.template_id,
-          direction: MessageDirection.SENT,
-          message: processedMessage,
-          status: MessageStatus.ERRO,
+    if (
+      change.action === "rescheduled" &&
+      !options.ignoreSchedule &&
+      change.sendAt &&
+      change.sendAt > now
+    ) {
+      return { queueId, status: "held", heldUntil: change.sendAt };
+    }
+
+    const settings = await queueDataStore.getSettings(queueItem.owner);
+
+    // Fora da janela de envio: segurar até a abertura
+    // (respostas de conversa e envios manuais são isentos; a isenção é
+    // marcada internamente, nunca pela prioridade recebida na API)
+    if (!options.ignoreSchedule && !Boolean(queueItem.exempt_limits)) {
+      const opensAt = getNextSendWindowStart(settings, now);
+
+      if (opensAt) {
+        await queueStore.reschedule(queueId, opensAt);
+
+        logger.info("Fora da janela de envio, item reagendado", {
+          scheduleId,
+          queueId,
+          ownerId: queueItem.owner,
+          opensAt,
         });
-        throw validationError;
+
+        return { queueId, status: "held", heldUntil: opensAt };
       }
 
-      // 7. Enviar mensagem via WhatsApp
-      try {
-        logger.info("Enviando mensagem via WhatsApp", {
+      // Limite diário do número atingido: segurar até o dia seguinte
+      const nextDay = await sendRateLimiter.checkDailyCap(settings, now);
+
+      if (nextDay) {
+        await queueStore.reschedule(queueId, nextDay);
+
+        logger.info("Limite diário atingido, item reagendado", {
           scheduleId,
-          patientName: patient.patients_name,
-          phoneNumber: formattedPhone,
-          messageLength: processedMessage.length,
+          queueId,
+          ownerId: queueItem.owner,
+          nextDay,
         });
 
-        const sendResult = await whatsappService.sendMessage(
-          queueItem.owner,
-          formattedPhone,
-          processedMessage
+        return { queueId, status: "held", heldUntil: nextDay };
+      }
+    }
+
+    // Reservar o item (lease) - outra réplica pode ter pego entre o SELECT e aqui.
+    // Reserva antes do token para não gastar o limite com item que não será enviado
+    const claimed = await queueStore.claim(queueId);
+
+    if (!claimed) {
+      logger.info("Item já reservado por outra instância", {
+        scheduleId,
+        queueId,
+      });
+      return { queueId, status: "skipped" };
+    }
+
+    // Respeitar o limite de mensagens por minuto da sessão
+    await sendRateLimiter.acquire(settings);
+
+    const attempt = Number(queueItem.attempts || 0) + 1;
+    let processedMessage: string | null = null;
+    let currentChannel: MessageChannelType | null = null;
+
+    try {
+      // 2. Buscar dados do paciente
+      const patient = queueItem.patient
+        ? await queueDataStore.getPatient(queueItem.patient)
+        : null;
+
+      if (!patient) {
+        throw createQueueError(
+          `Paciente ${queueItem.patient} não encontrado`,
+          QueueErrorCode.PATIENT_NOT_FOUND
         );
+      }
 
-        // 8. Atualizar status da fila para ENVIADA
-        await this.updateQueueStatus(queueItem.id, QueueStatus.ENVIADA);
-
-        // 9. Registrar no log de mensagens
-        await this.logMessage({
-          scheduleId: queueItem.schedule_id,
-          owner: queueItem.owner,
-          userId: queueItem.user_id,
-          templateId: queueItem.template_id,
-          direction: MessageDirection.SENT,
-          message: processedMessage,
-          status: MessageStatus.ENVIADA,
-        });
+      // 3. Buscar template
+      const template = await queueDataStore.getTemplate(queueItem.template_id);
 
-        // 10. Marcar agendamento como confirmado via WhatsApp
-        await prisma.$executeRaw`
-          UPDATE of_schedules 
-          SET whatsConf = 1 
-          WHERE id = ${scheduleId}
-        `;
+      if (!template) {
+        throw createQueueError(
+          `Template ${queueItem.template_id} não encontrado`,
+          QueueErrorCode.TEMPLATE_NOT_FOUND
+        );
+      }
 
-        logger.info("Mensagem enviada com sucesso", {
-          scheduleId,
-          patientName: patient.patients_name,
-          phoneNumber: formattedPhone,
-          messageId: sendResult?.key?.id,
-        });
-      } catch (sendError) {
-        logger.error("Erro ao enviar mensagem via WhatsApp", sendError, {
-          scheduleId,
-          patientName: patient.patients_name,
-          phoneNumber: formattedPhone,
-        });
+      // 4. Processar mensagem (variáveis e condições)
+      processedMessage = renderTemplate(
+        template.content,
+        await templateService.loadContext(
+          queueItem.owner,
+          { ...queueItem, ...patient, dates: schedule.dates },
+          settings.timezone
+        )
+      );
+
+      // 5. Tentar os canais na ordem de prioridade (template > tenant > .env)
+      const channels = resolveChannelPriority(
+        template.channels,
+        settings.channelPriority
+      );
+      const contact: ChannelPatient = {
+        name: patient.patients_name,
+        tel1: patient.tel1 || null,
+        tel2: patient.tel2 || null,
+        email: patient.email || null,
+      };
 
-        // Atualizar status para erro
-        await this.updateQueueStatus(queueItem.id, QueueStatus.ERRO);
-
-        // Registrar erro no log
-        await this.logMessage({
-          scheduleId: queueItem.schedule_id,
-          owner: queueItem.owner,
-          userId: queueItem.user_id,
-          templateId: queueItem.template_id,
-          direction: MessageDirection.SENT,
-          message: processedMessage,
-          status: MessageStatus.ERRO,
-        });
+      for (const [index, type] of channels.entries()) {
+        currentChannel = type;
 
-        throw sendError;
+        try {
+          return await this.sendThroughChannel(
+            queueItem,
+            attempt,
+            type,
+            contact,
+            processedMessage
+          );
+        } catch (error) {
+          const queueError = classifySendError(error);
+          const isLastChannel = index === channels.length - 1;
+
+          // Falha transitória com tentativas restantes: o item inteiro é
+          // reagendado e volta a tentar a partir do primeiro canal
+          if (
+            isLastChannel ||
+            (queueError.transient && attempt < config.queueMaxAttempts)
+          ) {
+            throw error;
+          }
+
+          await this.logMessage({
+            scheduleId: queueItem.schedule_id,
+            owner: queueItem.owner,
+            userId: queueItem.user_id,
+            templateId: queueItem.template_id,
+            direction: MessageDirection.SENT,
+            message: processedMessage,
+            status: MessageStatus.ERRO,
+            queueId: queueItem.id,
+            attempt,
+            channel: type,
+            errorCode: queueError.code,
+            errorMessage: queueError.message,
+          });
+
+          logger.warn("Canal não entregou a mensagem, tentando o próximo", {
+            scheduleId,
+            queueId: queueItem.id,
+            attempt,
+            channel: type,
+            nextChannel: channels[index + 1],
+            errorCode: queueError.code,
+          });
+        }
       }
+
+      throw createQueueError(
+        "Nenhum canal de envio configurado",
+        QueueErrorCode.CHANNEL_NOT_CONFIGURED
+      );
     } catch (error) {
-      logger.error("Erro ao processar item da fila", error, { scheduleId });
-      throw error;
+      const result = await this.handleProcessingFailure(
+        queueItem,
+        attempt,
+        error,
+        processedMessage,
+        currentChannel
+      );
+
+      // Falhas definitivas continuam sendo propagadas para o chamador
+      if (result.status === "failed") {
+        throw error;
+      }
+
+      return result;
     }
   }
 
   /**
-   * Processa template substituindo variáveis
+   * Envia a mensagem renderizada por um canal e registra o envio
    */
-  private processTemplate(
-    template: string,
-    variables: Record<string, string>
-  ): string {
-    let processed = template;
-
-    Object.keys(variables).forEach((key) => {
-      const regex = new RegExp(`{${key}}`, "gi");
-      processed = processed.replace(regex, variables[key]);
+  private async sendThroughChannel(
+    queueItem: ProcessingQueueItem,
+    attempt: number,
+    type: MessageChannelType,
+    contact: ChannelPatient,
+    message: string
+  ): Promise<ProcessItemResult> {
+    const channel = getMessageChannel(type);
+    const recipient = await channel.resolveRecipient(queueItem.owner, contact);
+
+    logger.info("Enviando mensagem", {
+      scheduleId: queueItem.schedule_id,
+      queueId: queueItem.id,
+      attempt,
+      channel: type,
+      patientName: contact.name,
+      recipient,
+      messageLength: message.length,
+    });
+
+    const { externalId } = await channel.send(
+      queueItem.owner,
+      recipient,
+      message
+    );
+
+    // Atualizar status da fila para ENVIADA com o canal usado
+    const recorded = await queueStore.markSent(queueItem.id, attempt, type);
+
+    // Lease expirou durante o envio: o item pertence à instância que o
+    // reservou depois, que registra o resultado
+    if (!recorded) {
+      logger.warn("Lease perdido durante o envio, resultado não registrado", {
+        scheduleId: queueItem.schedule_id,
+        queueId: queueItem.id,
+        attempt,
+        channel: type,
+        messageId: externalId,
+      });
+
+      return { queueId: queueItem.id, status: "skipped" };
+    }
+
+    await this.logMessage({
+      scheduleId: queueItem.schedule_id,
+      owner: queueItem.owner,
+      userId: queueItem.user_id,
+      templateId: queueItem.template_id,
+      direction: MessageDirection.SENT,
+      message,
+      status: MessageStatus.ENVIADA,
+      queueId: queueItem.id,
+      attempt,
+      channel: type,
+      externalId,
     });
 
-    return processed;
+    // Marcar agendamento como confirmado via WhatsApp
+    if (type === MessageChannelType.WHATSAPP) {
+      await queueDataStore.markScheduleConfirmed(queueItem.schedule_id);
+    }
+
+    logger.info("Mensagem enviada com sucesso", {
+      scheduleId: queueItem.schedule_id,
+      queueId: queueItem.id,
+      attempt,
+      channel: type,
+      patientName: contact.name,
+      recipient,
+      messageId: externalId,
+    });
+
+    return {
+      queueId: queueItem.id,
+      status: "sent",
+      attempt,
+      channel: type,
+    };
   }
 
   /**
-   * Atualiza status de um item na fila
+   * Registra falha de uma tentativa: reagenda (transitória) ou marca Erro
    */
-  private async updateQueueStatus(
-    queueId: number,
-    status: QueueStatus
-  ): Promise<void> {
-    try {
-      if (status === QueueStatus.ENVIADA) {
-        await prisma.$executeRaw`
-          UPDATE wa_queue 
-          SET status = ${status}, sent_at = NOW()
-          WHERE id = ${queueId}
-        `;
-      } else {
-        await prisma.$executeRaw`
-          UPDATE wa_queue 
-          SET status = ${status}
-          WHERE id = ${queueId}
-        `;
-      }
+  private async handleProcessingFailure(
+    queueItem: ProcessingQueueItem,
+    attempt: number,
+    error: unknown,
+    processedMessage: string | null,
+    channel: MessageChannelType | null = null
+  ): Promise<ProcessItemResult> {
+    const queueError = classifySendError(error);
+    const willRetry =
+      queueError.transient && attempt < config.queueMaxAttempts;
+    const nextRetryAt = willRetry ? computeRetryAt(attempt) : null;
+
+    const recorded = await queueStore.markFailed(queueItem.id, {
+      attempt,
+      errorCode: queueError.code,
+      errorMessage: queueError.message,
+      nextRetryAt,
+    });
 
-      logger.debug("Status da fila atualizado", { queueId, status });
-    } catch (error) {
-      logger.error("Erro ao atualizar status da fila", error, {
-        queueId,
-        status,
+    // Lease expirou: o item pertence à instância que o reservou depois
+    if (!recorded) {
+      return { queueId: queueItem.id, status: "skipped" };
+    }
+
+    await this.logMessage({
+      scheduleId: queueItem.schedule_id,
+      owner: queueItem.owner,
+      userId: queueItem.user_id,
+      templateId: queueItem.template_id,
+      direction: MessageDirection.SENT,
+      message: processedMessage ?? "",
+      status: MessageStatus.ERRO,
+      queueId: queueItem.id,
+      attempt,
+      channel: channel ?? undefined,
+      errorCode: queueError.code,
+      errorMessage: queueError.message,
+    });
+
+    if (willRetry) {
+      logger.warn("Falha transitória, nova tentativa agendada", {
+        scheduleId: queueItem.schedule_id,
+        queueId: queueItem.id,
+        attempt,
+        maxAttempts: config.queueMaxAttempts,
+        errorCode: queueError.code,
+        nextRetryAt,
       });
+
+      return {
+        queueId: queueItem.id,
+        status: "retry_scheduled",
+        attempt,
+        errorCode: queueError.code,
+        nextRetryAt: nextRetryAt!,
+      };
     }
+
+    logger.error("Erro ao processar item da fila", error, {
+      scheduleId: queueItem.schedule_id,
+      queueId: queueItem.id,
+      attempt,
+      errorCode: queueError.code,
+      transient: queueError.transient,
+    });
+
+    return {
+      queueId: queueItem.id,
+      status: "failed",
+      attempt,
+      errorCode: queueError.code,
+    };
   }
 
   /**
    * Registra mensagem no log
    */
-  private async logMessage(data: any): Promise<void> {
+  private async logMessage(data: QueueMessageLog): Promise<void> {
     try {
-      await prisma.$executeRaw`
-        INSERT INTO wa_messages (
-          schedule_id, owner, user_id, template_id, 
-          direction, message, status, created_at
-        )
-        VALUES (
-          ${data.scheduleId}, ${data.owner}, ${data.userId}, ${data.templateId},
-          ${data.direction}, ${data.message}, ${data.status}, NOW()
-        )
-      `;
+      await queueDataStore.logMessage(data);
 
       logger.debug("Mensagem registrada no log", {
         scheduleId: data.scheduleId,
         direction: data.direction,
         status: data.status,
+        attempt: data.attempt,
       });
     } catch (error) {
       logger.error("Erro ao registrar mensagem no log", error, data);
     }
   }
 
+  /**
+   * Processa em série os itens de um tenant, com delay entre envios
+   */
+  private async processOwnerItems(
+    ownerId: number,
+    queueIds: number[],
+    summary: QueueRunSummary
+  ): Promise<void> {
+    for (const queueId of queueIds) {
+      try {
+        const result = await this.processQueueItem(queueId);
+
+        if (result.status === "retry_scheduled") {
+          summary.retryScheduled++;
+        } else {
+          summary[result.status]++;
+        }
+
+        // Delay entre envios (base + jitter) para evitar bloqueio
+        if (result.status !== "held" && result.status !== "skipped") {
+          await sendRateLimiter.waitBetweenMessages();
+        }
+      } catch (error) {
+        summary.failed++;
+        logger.error(`Erro ao processar item ${queueId}`, error, { ownerId });
+        // Continuar processando outros itens mesmo se um falhar
+      }
+    }
+  }
+
   /**
    * Processa fila completa (para job agendado)
+   * Tenants diferentes são processados em paralelo (até `concurrency`);
+   * os itens de um mesmo tenant seguem em série, na ordem da fila.
    */
-  async processQueue(limit: number = 10): Promise<void> {
+  async processQueue(
+    limit: number = 10,
+    concurrency: number = config.queueTenantConcurrency
+  ): Promise<QueueRunSummary> {
+    const summary: QueueRunSummary = {
+      selected: 0,
+      sent: 0,
+      retryScheduled: 0,
+      failed: 0,
+      held: 0,
+      cancelled: 0,
+      skipped: 0,
+    };
+
     try {
-      const queueItems = await prisma.$queryRaw<any[]>`
-        SELECT DISTINCT schedule_id
-        FROM wa_queue
-        WHERE status = ${QueueStatus.AGUARDANDO}
-        ORDER BY created_at ASC
-        LIMIT ${limit}
-      `;
+      await queueStore.releaseExpiredLeases();
 
-      logger.info(`Processando ${queueItems.length} itens da fila`, { limit });
+      // getPending intercala tenants para que um tenant com muitos
+      // itens não ocupe o lote inteiro
+      const queueItems = await queueStore.getPending(limit);
+
+      summary.selected = queueItems.length;
+      logger.info(`Processando ${queueItems.length} itens da fila`, {
+        limit,
+        concurrency,
+      });
 
       if (queueItems.length === 0) {
         logger.info("Nenhum item na fila para processar");
-        return;
+        return summary;
       }
 
+      // Agrupar por tenant mantendo a ordem de prioridade de cada um
+      const itemsByOwner = new Map<number, number[]>();
+
       for (const item of queueItems) {
-        try {
-          await this.processQueueItem(item.schedule_id);
-          // Adicionar delay entre envios para evitar bloqueio
-          await new Promise((resolve) => setTimeout(resolve, 2000));
-        } catch (error) {
-          logger.error(`Erro ao processar item ${item.schedule_id}`, error);
-          // Continuar processando outros itens mesmo se um falhar
-        }
+        const ownerId = Number(item.owner_id);
+        const ids = itemsByOwner.get(ownerId) || [];
+        ids.push(Number(item.id));
+        itemsByOwner.set(ownerId, ids);
       }
 
-      logger.info("Processamento da fila concluído", {
-        processedItems: queueItems.length,
-      });
+      const owners = [...itemsByOwner.keys()];
+
+      // Workers pegam o próximo tenant livre até esgotar a lista
+      const worker = async () => {
+        let ownerId: number | undefined;
+
+        while ((ownerId = owners.shift()) !== undefined) {
+          await this.processOwnerItems(
+            ownerId,
+            itemsByOwner.get(ownerId) || [],
+            summary
+          );
+        }
+      };
+
+      const workers = Math.max(1, Math.min(concurrency, owners.length));
+      await Promise.all(Array.from({ length: workers }, () => worker()));
+
+      logger.info("Processamento da fila concluído", { ...summary });
+
+      return summary;
     } catch (error) {
       logger.error("Erro ao processar fila", error, { limit });
       throw error;
@@ -451,12 +1073,7 @@ export class QueueService {
    */
   async cancelQueueItem(scheduleId: number): Promise<void> {
     try {
-      const result = await prisma.$executeRaw`
-        UPDATE wa_queue 
-        SET status = ${QueueStatus.CANCELADA}
-        WHERE schedule_id = ${scheduleId}
-        AND status = ${QueueStatus.AGUARDANDO}
-      `;
+      const result = await queueStore.cancelBySchedule(scheduleId);
 
       logger.info(`Envio cancelado para agendamento ${scheduleId}`, {
         affectedRows: result,
@@ -468,32 +1085,222 @@ export class QueueService {
   }
 
   /**
-   * Busca histórico de mensagens de um agendamento
+   * Reagenda envio de um item pendente da fila
+   * @param sendAt Nova data de envio (null = envio no próximo processamento)
    */
-  async getMessageHistory(scheduleId: number): Promise<any[]> {
+  async rescheduleQueueItem(
+    queueId: number,
+    sendAt: Date | null
+  ): Promise<boolean> {
     try {
-      const messages = await prisma.$queryRaw<any[]>`
-        SELECT m.*, t.type as template_type
-        FROM wa_messages m
-        LEFT JOIN wa_templates t ON m.template_id = t.id
-        WHERE m.schedule_id = ${scheduleId}
-        ORDER BY m.created_at DESC
-      `;
+      const rescheduled = await queueStore.reschedule(queueId, sendAt);
 
-      logger.debug("Histórico de mensagens obtido", {
-        scheduleId,
-        messageCount: messages.length,
-      });
+      logger.info("Reagendamento de envio", { queueId, sendAt, rescheduled });
 
-      return messages;
+      return rescheduled;
     } catch (error) {
-      logger.error("Erro ao buscar histórico de mensagens", error, {
-        scheduleId,
-      });
+      logger.error("Erro ao reagendar envio", error, { queueId, sendAt });
       throw error;
     }
   }
 
+  /**
+   * Processa (ou tenta novamente) um item específico imediatamente
+   * Itens com Erro voltam para a fila; agendamento e backoff são ignorados.
+   */
+  async processQueueItemNow(queueId: number): Promise<ProcessItemResult> {
+    const reset = await queueStore.resetForRetry(queueId);
+
+    if (reset) {
+      logger.info("Item com erro devolvido para nova tentativa", { queueId });
+    }
+
+    try {
+      return await this.processQueueItem(queueId, { ignoreSchedule: true });
+    } catch (error) {
+      // Falha definitiva já registrada no item e em wa_messages
+      const queueError = classifySendError(error);
+      return {
+        queueId,
+        status: "failed",
+        errorCode: queueError.code,
+      };
+    }
+  }
+
+  /**
+   * Lista itens da fila com prévia da mensagem renderizada
+   */
+  async listQueueItems(filters: QueueItemFilters): Promise<QueueItemPage> {
+    // Buscar um item a mais para saber se existe próxima página
+    const rows = await queueStore.list({
+      ...filters,
+      limit: filters.limit + 1,
+    });
+
+    const hasMore = rows.length > filters.limit;
+    const pageRows = hasMore ? rows.slice(0, filters.limit) : rows;
+
+    // Clínicas, profissionais e fusos buscados uma vez por página
+    const ownerIds = [...new Set(pageRows.map((row) => Number(row.owner_id)))];
+    const partnerIds = [
+      ...new Set(
+        pageRows
+          .map((row) => Number(row.partner))
+          .filter((partnerId) => partnerId > 0)
+      ),
+    ];
+    const [clinics, professionals, settings] = await Promise.all([
+      queueDataStore.getClinics(ownerIds),
+      scheduleRepository.getProfessionalNames(partnerIds),
+      Promise.all(ownerIds.map((id) => queueDataStore.getSettings(id))),
+    ]);
+    const timezones = new Map(
+      settings.map((setting) => [setting.ownerId, setting.timezone])
+    );
+
+    const items: QueueItemView[] = pageRows.map((row) => ({
+      id: Number(row.id),
+      scheduleId: row.schedule_id,
+      ownerId: row.owner_id,
+      templateId: row.template_id,
+      templateType: row.template_type,
+      status: row.status as QueueStatus,
+      priority: Number(row.priority),
+      patientName: row.patients_name,
+      preview:
+        row.template_content && row.dates
+          ? renderTemplate(
+              row.template_content,
+              buildTemplateContext(
+                templateService.toRenderData(
+                  { ...row, dates: row.dates },
+                  clinics.get(Number(row.owner_id)) ?? null,
+                  professionals.get(Number(row.partner)) ?? null,
+                  timezones.get(Number(row.owner_id)) ?? config.defaultTimezone
+                )
+              )
+            )
+          : null,
+      attempts: Number(row.attempts || 0),
+      lastErrorCode: row.last_error_code ?? null,
+      lastErrorMessage: row.last_error_message ?? null,
+      createdAt: row.created_at,
+      sendAt: row.send_at ?? null,
+      sentAt: row.sent_at ?? null,
+      channel: (row.channel as MessageChannelType) ?? null,
+      nextRetryAt: row.next_retry_at ?? null,
+    }));
+
+    return {
+      items,
+      nextCursor: hasMore ? items[items.length - 1].id : null,
+    };
+  }
+
+  /**
+   * Executa ação em lote sobre itens da fila
+   * Itens em status incompatível com a ação são ignorados.
+   */
+  async bulkQueueAction(
+    action: QueueBulkAction,
+    queueIds: number[],
+    sendAt: Date | null = null
+  ): Promise<QueueBulkResult> {
+    let affected: number;
+
+    switch (action) {
+      case "cancel":
+        affected = await queueStore.cancelMany(queueIds);
+        break;
+      case "requeue":
+        affected = (await this.requeueQueueItems(queueIds)).requeued;
+        break;
+      case "reschedule":
+        affected = await queueStore.rescheduleMany(queueIds, sendAt);
+        break;
+    }
+
+    logger.info("Ação em lote na fila", {
+      action,
+      requested: queueIds.length,
+      affected,
+      sendAt,
+    });
+
+    return { action, requested: queueIds.length, affected };
+  }
+
+  /**
+   * Resumo dos itens com falha definitiva (dead-letter) por motivo
+   */
+  async getDeadLetterSummary(
+    filters: DeadLetterFilters
+  ): Promise<DeadLetterGroup[]> {
+    return queueStore.getDeadLetterSummary(filters);
+  }
+
+  /**
+   * Devolve itens com Erro para a fila e registra no histórico
+   */
+  async requeueQueueItems(queueIds: number[]): Promise<RequeueResult> {
+    const requeuedItems = await queueStore.requeueMany(queueIds);
+
+    for (const item of requeuedItems) {
+      await this.logMessage({
+        scheduleId: item.schedule_id,
+        owner: item.owner_id,
+        userId: item.user_id,
+        templateId: item.template_id,
+        direction: MessageDirection.SENT,
+        message: `Item ${item.id} devolvido para a fila após ${item.attempts} tentativa(s)`,
+        status: MessageStatus.REENFILEIRADA,
+        queueId: Number(item.id),
+        attempt: item.attempts,
+        errorCode: item.last_error_code,
+        errorMessage: item.last_error_message,
+      });
+    }
+
+    logger.info("Itens com erro devolvidos para a fila", {
+      requested: queueIds.length,
+      requeued: requeuedItems.length,
+    });
+
+    return {
+      requested: queueIds.length,
+      requeued: requeuedItems.length,
+      queueIds: requeuedItems.map((item) => Number(item.id)),
+    };
+  }
+
+  /**
+   * Devolve para a fila todos os itens com Erro que atendem ao filtro
+   */
+  async requeueByFilter(
+    filters: DeadLetterFilters,
+    limit: number
+  ): Promise<RequeueResult> {
+    const queueIds = await queueStore.findDeadLetterIds(filters, limit);
+    return this.requeueQueueItems(queueIds);
+  }
+
+  /**
+   * Busca histórico de mensagens de um agendamento
+   */
+  async getMessageHistory(
+    scheduleId: number
+  ): Promise<QueueMessageHistoryRow[]> {
+    const messages = await queueDataStore.getMessageHistory(scheduleId);
+
+    logger.debug("Histórico de mensagens obtido", {
+      scheduleId,
+      messageCount: messages.length,
+    });
+
+    return messages;
+  }
+
   /**
    * Forçar atualização do status da sessão para CONNECTED
    */
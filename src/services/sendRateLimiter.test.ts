@@ -0,0 +1,60 @@
+// src/services/sendRateLimiter.test.ts
+
+import { SendRateLimiter } from "./sendRateLimiter";
+import { memoryQueueDataStore } from "../repositories/memoryQueueDataStore";
+import {
+  MessageChannelType,
+  MessageDirection,
+  MessageStatus,
+} from "../types/queue.types";
+
+jest.mock("../config/database", () => ({ prisma: {} }));
+
+const settings = {
+  ownerId: 1,
+  messagesPerMinute: 20,
+  dailyCap: 2,
+  timezone: "America/Sao_Paulo",
+};
+
+const logSent = (channel: MessageChannelType) =>
+  memoryQueueDataStore.logMessage({
+    scheduleId: 10,
+    owner: settings.ownerId,
+    userId: 1,
+    templateId: 3,
+    direction: MessageDirection.SENT,
+    message: "Olá",
+    status: MessageStatus.ENVIADA,
+    channel,
+  });
+
+describe("SendRateLimiter.checkDailyCap", () => {
+  beforeEach(() => {
+    memoryQueueDataStore.clear();
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("conta apenas envios pelo WhatsApp", async () => {
+    await logSent(MessageChannelType.WHATSAPP);
+    await logSent(MessageChannelType.EMAIL);
+    await logSent(MessageChannelType.SMS);
+
+    expect(await new SendRateLimiter().checkDailyCap(settings)).toBeNull();
+  });
+
+  it("segura até o dia seguinte ao atingir o limite", async () => {
+    await logSent(MessageChannelType.WHATSAPP);
+    await logSent(MessageChannelType.WHATSAPP);
+
+    const now = new Date();
+    const nextDay = await new SendRateLimiter().checkDailyCap(settings, now);
+
+    expect(nextDay).not.toBeNull();
+    expect(nextDay!.getTime()).toBeGreaterThan(now.getTime());
+  });
+});
@@ -0,0 +1,107 @@
+// src/services/sendRateLimiter.ts
+// Limites de envio por sessão WhatsApp (mensagens/minuto, limite diário e jitter)
+
+import { queueDataStore } from "../repositories/queueDataStore";
+import { logger } from "../utils/logger";
+import { config } from "../config/config";
+import { TokenBucket } from "../utils/tokenBucket";
+import { getStartOfDay } from "../utils/sendWindow";
+import type { TenantSettings } from "../types/settings.types";
+
+type RateLimitSettings = Pick<
+  TenantSettings,
+  "ownerId" | "messagesPerMinute" | "dailyCap" | "timezone"
+>;
+
+export class SendRateLimiter {
+  // Um bucket por sessão (tenant_{ownerId}) em memória, por processo:
+  // com N réplicas a sessão pode enviar até N x messagesPerMinute.
+  // O limite diário é global (contado em wa_messages)
+  private buckets = new Map<number, TokenBucket>();
+
+  /**
+   * Verifica o limite diário do número
+   * @returns Início do próximo dia se o limite foi atingido, senão null
+   */
+  async checkDailyCap(
+    settings: RateLimitSettings,
+    now: Date = new Date()
+  ): Promise<Date | null> {
+    if (!settings.dailyCap) return null;
+
+    const startOfDay = getStartOfDay(settings.timezone, now);
+    const sentToday = await queueDataStore.countSentSince(
+      settings.ownerId,
+      startOfDay
+    );
+
+    if (sentToday < settings.dailyCap) return null;
+
+    const nextDay = getStartOfDay(settings.timezone, now, 1);
+
+    logger.warn("Limite diário de envios atingido", {
+      ownerId: settings.ownerId,
+      sentToday,
+      dailyCap: settings.dailyCap,
+      nextDay,
+    });
+
+    return nextDay;
+  }
+
+  /**
+   * Aguarda um token do bucket da sessão (mensagens por minuto)
+   */
+  async acquire(settings: RateLimitSettings): Promise<void> {
+    const bucket = this.getBucket(settings);
+
+    while (!bucket.tryTake()) {
+      const waitMs = bucket.msUntilNextToken();
+
+      logger.debug("Aguardando limite de envios por minuto", {
+        ownerId: settings.ownerId,
+        messagesPerMinute: settings.messagesPerMinute,
+        waitMs,
+      });
+
+      await this.sleep(waitMs);
+    }
+  }
+
+  /**
+   * Intervalo entre mensagens: base configurada + jitter aleatório
+   */
+  getDelayBetweenMessages(): number {
+    return (
+      config.queueDelayBetweenMessages +
+      Math.floor(Math.random() * (config.queueJitterMs + 1))
+    );
+  }
+
+  /**
+   * Aguarda o intervalo entre mensagens
+   */
+  async waitBetweenMessages(): Promise<void> {
+    await this.sleep(this.getDelayBetweenMessages());
+  }
+
+  private getBucket(settings: RateLimitSettings): TokenBucket {
+    const burst = Math.min(config.queueRateLimitBurst, settings.messagesPerMinute);
+    let bucket = this.buckets.get(settings.ownerId);
+
+    if (!bucket) {
+      bucket = new TokenBucket(burst, settings.messagesPerMinute);
+      this.buckets.set(settings.ownerId, bucket);
+    } else {
+      bucket.configure(burst, settings.messagesPerMinute);
+    }
+
+    return bucket;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
+
+export const sendRateLimiter = new SendRateLimiter();
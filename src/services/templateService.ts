@@ -0,0 +1,218 @@
+// src/services/templateService.ts
+// Dados e renderização de templates (envio da fila e pré-visualização)
+
+import type { ClinicData } from "../repositories/clinicRepository";
+import { queueDataStore } from "../repositories/queueDataStore";
+import { scheduleRepository } from "../repositories/scheduleRepository";
+import { logger } from "../utils/logger";
+import { analyzeTemplate, buildTemplateContext } from "../utils/templateEngine";
+import { resolveChannelPriority } from "../utils/channelPriority";
+import { MessageChannelType } from "../types/queue.types";
+import type {
+  TemplateAnalysis,
+  TemplateContext,
+  TemplatePreview,
+  TemplateRenderData,
+  TemplateSample,
+  TemplateSource,
+} from "../types/template.types";
+
+const WHATSAPP_MAX_LENGTH = 4096;
+const SMS_SEGMENT_LENGTH = 160;
+const SMS_MULTIPART_LENGTH = 153; // Cada parte perde 7 caracteres para o cabeçalho
+
+// Marcações do WhatsApp que precisam de abertura e fechamento
+const FORMATTING_MARKS: [string, string][] = [
+  ["*", "negrito"],
+  ["_", "itálico"],
+  ["~", "tachado"],
+];
+
+export class TemplateService {
+  /**
+   * Variáveis e condições do template com dados da clínica e do profissional
+   */
+  async loadContext(
+    ownerId: number,
+    source: TemplateSource,
+    timezone: string
+  ): Promise<TemplateContext> {
+    const partnerId =
+      source.professional === undefined ? Number(source.partner) || null : null;
+    const [clinics, professionals] = await Promise.all([
+      queueDataStore.getClinics([ownerId]),
+      scheduleRepository.getProfessionalNames(partnerId ? [partnerId] : []),
+    ]);
+
+    return buildTemplateContext(
+      this.toRenderData(
+        source,
+        clinics.get(ownerId) ?? null,
+        partnerId
+          ? professionals.get(partnerId) ?? null
+          : source.professional ?? null,
+        timezone
+      )
+    );
+  }
+
+  /**
+   * Converte linhas do banco (flags vêm como 0/1 do MySQL)
+   */
+  toRenderData(
+    source: TemplateSource,
+    clinic: ClinicData | null,
+    professional: string | null,
+    timezone: string
+  ): TemplateRenderData {
+    return {
+      patient: {
+        name: source.patients_name ?? "",
+        birthDate: source.patients_dateb ?? null,
+        parentName: source.parent_name ?? null,
+      },
+      schedule: {
+        dates: source.dates,
+        times: source.times,
+        procedures: source.procedures,
+        price: source.price ?? null,
+        sedation: Boolean(source.sedation),
+        surgery: Boolean(source.surgery),
+        laboratory: Boolean(source.laboratory),
+      },
+      clinic,
+      professional,
+      timezone,
+    };
+  }
+
+  /**
+   * Agendamento com os dados do paciente para renderização
+   * @returns null se o agendamento (ou o paciente) não existir
+   */
+  async getScheduleSource(
+    scheduleId: number
+  ): Promise<(TemplateSource & { owner: number }) | null> {
+    return queueDataStore.getScheduleSource(scheduleId);
+  }
+
+  /**
+   * Dados fictícios para pré-visualização (consulta amanhã às 14:30)
+   */
+  buildSampleSource(
+    sample: TemplateSample = {},
+    now: Date = new Date()
+  ): TemplateSource {
+    const tomorrow = new Date(now.getTime() + 24 * 60 * 60 * 1000)
+      .toISOString()
+      .substring(0, 10);
+
+    return {
+      patients_name: sample.patientName ?? "Maria da Silva",
+      patients_dateb: sample.birthDate ?? null,
+      parent_name: sample.parentName ?? null,
+      dates: sample.dates ?? new Date(`${tomorrow}T00:00:00Z`),
+      times: sample.times ?? "14:30",
+      procedures: sample.procedures ?? "Consulta",
+      price: sample.price ?? null,
+      professional: sample.professional ?? null,
+      sedation: sample.sedation ?? false,
+      surgery: sample.surgery ?? false,
+      laboratory: sample.laboratory ?? false,
+    };
+  }
+
+  /**
+   * Renderiza o template com o mesmo motor usado no envio da fila
+   * @param templateChannels Canais do template (NULL = os do tenant), para avisos de SMS
+   */
+  async preview(
+    ownerId: number,
+    content: string,
+    source: TemplateSource,
+    dataSource: TemplatePreview["dataSource"],
+    templateChannels: string | null = null
+  ): Promise<TemplatePreview> {
+    const settings = await queueDataStore.getSettings(ownerId);
+    const context = await this.loadContext(ownerId, source, settings.timezone);
+    const analysis = analyzeTemplate(content, context);
+    const channels = resolveChannelPriority(
+      templateChannels,
+      settings.channelPriority
+    );
+
+    const warnings = this.collectWarnings(analysis, channels);
+
+    logger.debug("Pré-visualização de template", {
+      ownerId,
+      dataSource,
+      length: analysis.text.length,
+      unresolved: analysis.unresolved,
+      warnings: warnings.length,
+    });
+
+    return {
+      text: analysis.text,
+      length: analysis.text.length,
+      dataSource,
+      unresolved: analysis.unresolved,
+      warnings,
+      variables: context.variables,
+    };
+  }
+
+  /**
+   * Avisos de tamanho e formatação da mensagem renderizada
+   */
+  private collectWarnings(
+    analysis: TemplateAnalysis,
+    channels: MessageChannelType[]
+  ): string[] {
+    const warnings: string[] = [];
+    const { text } = analysis;
+
+    if (text.trim() === "") {
+      warnings.push("Mensagem vazia após a renderização");
+    }
+
+    if (analysis.unbalancedConditionals) {
+      warnings.push("Bloco {#se ...} sem {/se} correspondente (ou o contrário)");
+    }
+
+    for (const name of analysis.emptyVariables) {
+      warnings.push(
+        `Variável {${name}} ficou vazia; use {#se ${name}}...{/se} para omitir o trecho`
+      );
+    }
+
+    if (text.length > WHATSAPP_MAX_LENGTH) {
+      warnings.push(
+        `Mensagem com ${text.length} caracteres excede o limite de ${WHATSAPP_MAX_LENGTH} do WhatsApp`
+      );
+    }
+
+    if (
+      channels.includes(MessageChannelType.SMS) &&
+      text.length > SMS_SEGMENT_LENGTH
+    ) {
+      const parts = Math.ceil(text.length / SMS_MULTIPART_LENGTH);
+      warnings.push(
+        `Por SMS a mensagem será dividida em ${parts} partes (${text.length} caracteres)`
+      );
+    }
+
+    for (const [mark, name] of FORMATTING_MARKS) {
+      if (text.split(mark).length % 2 === 0) {
+        warnings.push(`Marcação de ${name} (${mark}) sem fechamento`);
+      }
+    }
+
+    if (/\n\s*\n\s*\n/.test(text)) {
+      warnings.push("Mais de uma linha em branco seguida");
+    }
+
+    return warnings;
+  }
+}
+
+export const templateService = new TemplateService();
@@ -0,0 +1,114 @@
+// src/services/webhookSecurityService.ts
+// Verificação de autenticidade dos webhooks recebidos do Evolution API
+
+import { prisma } from "../config/database";
+import { logger } from "../utils/logger";
+import { safeCompare } from "../utils/security";
+import type { EvolutionWebhookData } from "../schemas/whatsappSchemas";
+
+export type WebhookRejectionReason =
+  | "session_not_found"
+  | "instance_mismatch"
+  | "invalid_credentials";
+
+export interface WebhookRejectionStats {
+  total: number;
+  byReason: Partial<Record<WebhookRejectionReason, number>>;
+  lastRejectedAt: Date | null;
+}
+
+export class WebhookSecurityService {
+  private rejections = new Map<string, WebhookRejectionStats>();
+
+  /**
+   * Verificar webhook antes do processamento
+   * Aceita o segredo da URL (?secret=) ou o apikey do payload igual à
+   * API Key/token da sessão.
+   * @returns Motivo da rejeição ou null se o webhook for autêntico
+   */
+  async verify(
+    tenantId: number,
+    webhookData: EvolutionWebhookData,
+    providedSecret?: string
+  ): Promise<WebhookRejectionReason | null> {
+    const expectedInstanceName = `tenant_${tenantId}`;
+
+    if (webhookData.instance !== expectedInstanceName) {
+      return this.reject(tenantId, "instance_mismatch", {
+        expected: expectedInstanceName,
+        received: webhookData.instance,
+      });
+    }
+
+    const session = await prisma.whatsAppSession.findUnique({
+      where: { sessionName: expectedInstanceName },
+      select: {
+        tenantId: true,
+        evolutionApiKey: true,
+        sessionToken: true,
+        webhookSecret: true,
+      },
+    });
+
+    if (!session || session.tenantId !== tenantId.toString()) {
+      return this.reject(tenantId, "session_not_found", {
+        instance: webhookData.instance,
+      });
+    }
+
+    const authenticated =
+      safeCompare(providedSecret, session.webhookSecret) ||
+      safeCompare(webhookData.apikey, session.evolutionApiKey) ||
+      safeCompare(webhookData.apikey, session.sessionToken);
+
+    if (!authenticated) {
+      return this.reject(tenantId, "invalid_credentials", {
+        instance: webhookData.instance,
+        hasSecret: !!providedSecret,
+        hasApiKey: !!webhookData.apikey,
+      });
+    }
+
+    return null;
+  }
+
+  /**
+   * Obter contadores de webhooks rejeitados de um tenant
+   */
+  getRejectionStats(tenantId: number): WebhookRejectionStats {
+    return (
+      this.rejections.get(tenantId.toString()) ?? {
+        total: 0,
+        byReason: {},
+        lastRejectedAt: null,
+      }
+    );
+  }
+
+  /**
+   * Registrar rejeição (contador em memória + log)
+   */
+  private reject(
+    tenantId: number,
+    reason: WebhookRejectionReason,
+    meta: Record<string, any>
+  ): WebhookRejectionReason {
+    const stats = this.getRejectionStats(tenantId);
+
+    stats.total += 1;
+    stats.byReason[reason] = (stats.byReason[reason] ?? 0) + 1;
+    stats.lastRejectedAt = new Date();
+    this.rejections.set(tenantId.toString(), stats);
+
+    logger.warn("Webhook rejeitado", {
+      tenantId,
+      reason,
+      totalRejections: stats.total,
+      ...meta,
+    });
+
+    return reason;
+  }
+}
+
+export const webhookSecurityService = new WebhookSecurityService();
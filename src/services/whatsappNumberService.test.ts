@@ -0,0 +1,60 @@
+// src/services/whatsappNumberService.test.ts
+
+import { WhatsAppNumberService } from "./whatsappNumberService";
+import { whatsappService } from "./whatsappService";
+import { logger } from "../utils/logger";
+
+jest.mock("../config/database", () => ({ prisma: {} }));
+
+const checkNumbers = () =>
+  jest.spyOn(whatsappService, "checkWhatsAppNumbers");
+
+describe("WhatsAppNumberService.resolveRecipient", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("usa tel2 quando tel1 não tem WhatsApp e guarda o resultado em cache", async () => {
+    const check = checkNumbers().mockResolvedValue([
+      { exists: false, jid: "", number: "5511988887777" },
+      {
+        exists: true,
+        jid: "5511999998888@s.whatsapp.net",
+        number: "5511999998888",
+      },
+    ]);
+    const service = new WhatsAppNumberService();
+
+    const phones = ["11988887777", "11999998888"];
+    expect(await service.resolveRecipient(1, phones)).toBe("5511999998888");
+    expect(await service.resolveRecipient(1, phones)).toBe("5511999998888");
+    expect(check).toHaveBeenCalledTimes(1);
+  });
+
+  it("retorna null quando nenhum telefone tem WhatsApp", async () => {
+    checkNumbers().mockResolvedValue([
+      { exists: false, jid: "", number: "5511988887777" },
+    ]);
+    const service = new WhatsAppNumberService();
+
+    expect(await service.resolveRecipient(1, ["11988887777", null])).toBeNull();
+  });
+
+  it("com a verificação indisponível usa o primeiro telefone como não verificado", async () => {
+    checkNumbers().mockRejectedValue(new Error("Evolution offline"));
+    const warn = jest.spyOn(logger, "warn").mockImplementation(() => undefined);
+    const service = new WhatsAppNumberService();
+
+    expect(
+      await service.resolveRecipient(1, ["11988887777", "11999998888"])
+    ).toBe("5511988887777");
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining("não verificado"),
+      expect.objectContaining({ phone: "5511988887777", verified: false })
+    );
+  });
+});
@@ -0,0 +1,133 @@
+// src/services/whatsappNumberService.ts
+// Verificação de números com WhatsApp (com cache por número e TTL)
+
+import { whatsappService } from "./whatsappService";
+import { logger } from "../utils/logger";
+import { config } from "../config/config";
+import { formatPhoneForWhatsApp } from "../utils/formatters";
+import type { EvolutionWhatsAppNumber } from "../types/evolution.types";
+
+interface CachedNumber {
+  exists: boolean;
+  number: string; // Número como o WhatsApp conhece (pode ajustar o nono dígito)
+  expiresAt: number;
+}
+
+// Limpa entradas expiradas quando o cache passa deste tamanho
+const CACHE_PRUNE_SIZE = 10000;
+
+export class WhatsAppNumberService {
+  private cache = new Map<string, CachedNumber>();
+
+  /**
+   * Primeiro telefone com WhatsApp, na ordem informada
+   * Se a verificação estiver indisponível, usa o primeiro telefone válido.
+   * @returns Número formatado para envio ou null se nenhum possui WhatsApp
+   */
+  async resolveRecipient(
+    ownerId: number,
+    phones: (string | null | undefined)[]
+  ): Promise<string | null> {
+    const candidates = [
+      ...new Set(
+        phones
+          .filter((phone): phone is string => !!phone)
+          .map((phone) => formatPhoneForWhatsApp(phone))
+          .filter((phone) => phone !== "")
+      ),
+    ];
+
+    if (candidates.length === 0) return null;
+    if (!config.whatsappNumberCheck) return candidates[0];
+
+    const now = Date.now();
+    const unchecked = candidates.filter((phone) => !this.getCached(phone, now));
+
+    if (unchecked.length > 0) {
+      try {
+        const results = await whatsappService.checkWhatsAppNumbers(
+          ownerId,
+          unchecked
+        );
+        this.store(unchecked, results, now);
+      } catch (error) {
+        // Não bloquear o envio: o próprio envio classifica a falha
+        logger.warn(
+          "Verificação de WhatsApp indisponível, enviando para número não verificado",
+          {
+            ownerId,
+            phone: candidates[0],
+            verified: false,
+            error: (error as Error).message,
+          }
+        );
+        return candidates[0];
+      }
+    }
+
+    for (const phone of candidates) {
+      const cached = this.getCached(phone, now);
+
+      if (cached?.exists) {
+        logger.debug("Número com WhatsApp selecionado", {
+          ownerId,
+          phone,
+          number: cached.number,
+        });
+        return cached.number;
+      }
+    }
+
+    logger.info("Nenhum telefone do paciente possui WhatsApp", {
+      ownerId,
+      candidates,
+    });
+
+    return null;
+  }
+
+  private getCached(phone: string, now: number): CachedNumber | null {
+    const cached = this.cache.get(phone);
+    if (!cached) return null;
+
+    if (cached.expiresAt <= now) {
+      this.cache.delete(phone);
+      return null;
+    }
+
+    return cached;
+  }
+
+  /**
+   * Guarda os resultados; números sem resposta da Evolution não são cacheados
+   */
+  private store(
+    phones: string[],
+    results: EvolutionWhatsAppNumber[],
+    now: number
+  ): void {
+    const expiresAt = now + config.whatsappNumberCacheTtl * 60 * 1000;
+
+    for (const phone of phones) {
+      const result = results.find(
+        (item) => String(item.number ?? "").replace(/\D/g, "") === phone
+      );
+
+      if (!result) continue;
+
+      this.cache.set(phone, {
+        exists: result.exists === true,
+        number: result.jid?.split("@")[0] || phone,
+        expiresAt,
+      });
+    }
+
+    if (this.cache.size > CACHE_PRUNE_SIZE) {
+      for (const [phone, cached] of this.cache) {
+        if (cached.expiresAt <= now) this.cache.delete(phone);
+      }
+    }
+  }
+}
+
+export const whatsappNumberService = new WhatsAppNumberService();
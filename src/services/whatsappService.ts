@@ -14,9 +14,15 @@ import type {
   ConnectionUpdateData,
   MessageData,
 } from "../types/whatsapp.types";
-import type { SendTextMessageOptions } from "../types/evolution.types";
+import type {
+  EvolutionWhatsAppNumber,
+  SendTextMessageOptions,
+} from "../types/evolution.types";
 import { incomingMessageHandler } from "./incomingMessageHandler";
+import { waMessageRepository } from "../repositories/waMessageRepository";
+import { DeliveryStatus } from "../types/queue.types";
 import { formatPhoneForWhatsApp } from "../utils/formatters";
+import { generateSecret } from "../utils/security";
 import type { EvolutionWebhookData } from "../schemas/whatsappSchemas";
 
 export class WhatsAppService {
@@ -44,7 +50,8 @@ export class WhatsAppService {
       // 4. Verificar se já existe uma sessão ativa no banco
       const existingSession = await this.findActiveSession(tenantId);
       const sessionName = `tenant_${tenantId}`;
-      const webhookUrl = `${config.webhookBaseUrl}/api/webhook/whatsapp/${tenantId}`;
+      const webhookSecret = await this.getOrCreateWebhookSecret(sessionName);
+      const webhookUrl = `${config.webhookBaseUrl}/api/webhook/whatsapp/${tenantId}?secret=${webhookSecret}`;
 
       // 5. Verificar se a sessão existe no Evolution API
       const sessionExistsInEvolution = await evolutionService.checkSession(
@@ -66,6 +73,20 @@ export class WhatsAppService {
           evolutionApiKey,
           webhookUrl
         );
+      } else {
+        // Sessão existente: garantir que o webhook usa a URL com segredo
+        try {
+          await evolutionService.configureWebhook(
+            sessionName,
+            evolutionApiKey,
+            webhookUrl
+          );
+        } catch (webhookError: any) {
+          logger.warn("Falha ao atualizar webhook da sessão existente", {
+            sessionName,
+            error: webhookError.message,
+          });
+        }
       }
 
       // 7. Criar ou atualizar sessão no banco
@@ -74,6 +95,7 @@ export class WhatsAppService {
         sessionName,
         evolutionApiKey,
         webhookUrl,
+        webhookSecret,
         existingSession
       );
 
@@ -279,6 +301,18 @@ export class WhatsAppService {
     }
   }
 
+  /**
+   * Obter segredo do webhook da sessão (gera um novo se não existir)
+   */
+  private async getOrCreateWebhookSecret(sessionName: string): Promise<string> {
+    const session = await prisma.whatsAppSession.findUnique({
+      where: { sessionName },
+      select: { webhookSecret: true },
+    });
+
+    return session?.webhookSecret ?? generateSecret();
+  }
+
   /**
    * Criar ou atualizar sessão no banco (usando String)
    */
@@ -287,6 +321,7 @@ export class WhatsAppService {
     sessionName: string,
     evolutionApiKey: string,
     webhookUrl: string,
+    webhookSecret: string,
     existingSession: any
   ) {
     logger.debug("Criando/atualizando sessão no banco", {
@@ -303,11 +338,13 @@ export class WhatsAppService {
         evolutionApiKey,
         status: "CONNECTING",
         webhookUrl,
+        webhookSecret,
       },
       update: {
         status: "CONNECTING",
         evolutionApiKey,
         webhookUrl,
+        webhookSecret,
         updatedAt: new Date(),
       },
     });
@@ -572,6 +609,11 @@ export class WhatsAppService {
           await this.handleEvolutionMessageReceived(session.id, tenantId, data);
           break;
 
+        case "messages.update":
+          logger.info("📬 EVOLUTION - Processando message update");
+          await this.handleEvolutionMessageUpdate(tenantId, data);
+          break;
+
         default:
           logger.debug("❓ EVOLUTION - Evento não tratado", { event });
       }
@@ -660,6 +702,74 @@ export class WhatsAppService {
     }
   }
 
+  /**
+   * Processar confirmação de entrega/leitura (messages.update)
+   */
+  private async handleEvolutionMessageUpdate(
+    tenantId: number,
+    data: any
+  ): Promise<void> {
+    const externalId = data.keyId ?? data.key?.id;
+    const fromMe = data.fromMe ?? data.key?.fromMe;
+    const status = this.mapDeliveryStatus(data.status);
+
+    // Só interessam confirmações das mensagens que enviamos
+    if (!externalId || fromMe === false || !status) {
+      logger.debug("❓ EVOLUTION - Message update ignorado", {
+        tenantId,
+        externalId,
+        fromMe,
+        status: data.status,
+      });
+      return;
+    }
+
+    try {
+      const affected = await waMessageRepository.updateDeliveryStatus(
+        tenantId,
+        externalId,
+        status,
+        new Date()
+      );
+
+      logger.info("📬 EVOLUTION - Confirmação de entrega registrada", {
+        tenantId,
+        externalId,
+        status,
+        affected,
+      });
+    } catch (error) {
+      logger.error("❌ EVOLUTION - Erro ao registrar confirmação", error, {
+        tenantId,
+        externalId,
+      });
+    }
+  }
+
+  /**
+   * Converte o status da Evolution (texto ou código numérico do Baileys)
+   */
+  private mapDeliveryStatus(status: unknown): DeliveryStatus | null {
+    switch (status) {
+      case "SERVER_ACK":
+      case 2:
+        return DeliveryStatus.ENVIADA;
+      case "DELIVERY_ACK":
+      case 3:
+        return DeliveryStatus.ENTREGUE;
+      case "READ":
+      case "PLAYED":
+      case 4:
+      case 5:
+        return DeliveryStatus.LIDA;
+      case "ERROR":
+      case 0:
+        return DeliveryStatus.ERRO;
+      default:
+        return null; // PENDING, DELETED etc.
+    }
+  }
+
   /**
    * Processar mensagem recebida do Evolution - COM LOGS DETALHADOS
    */
@@ -797,6 +907,62 @@ export class WhatsAppService {
     }
   }
 
+  /**
+   * Verifica quais números possuem WhatsApp usando a sessão do tenant
+   */
+  async checkWhatsAppNumbers(
+    tenantId: number,
+    phoneNumbers: string[]
+  ): Promise<EvolutionWhatsAppNumber[]> {
+    const session = await this.getConnectedSession(tenantId);
+
+    return evolutionService.checkWhatsAppNumbers(
+      session.sessionName,
+      session.evolutionApiKey,
+      phoneNumbers.map((phoneNumber) => phoneNumber.replace(/\D/g, ""))
+    );
+  }
+
+  /**
+   * Busca a sessão do tenant exigindo status CONNECTED e API Key
+   */
+  private async getConnectedSession(tenantId: number) {
+    // CORRIGIDO: Buscar qualquer sessão ativa, priorizando CONNECTED
+    const session = await prisma.whatsAppSession.findFirst({
+      where: {
+        tenantId: tenantId.toString(),
+        status: { in: ["CONNECTED", "CONNECTING"] },
+      },
+      orderBy: [
+        {
+          status: "asc",
+        },
+        {
+          connectedAt: "desc",
+        },
+      ],
+    });
+
+    if (!session) {
+      throw new Error(
+        `Nenhuma sessão WhatsApp encontrada para tenant ${tenantId}. Execute a conexão primeiro.`
+      );
+    }
+
+    // Verificar se está realmente conectada
+    if (session.status !== "CONNECTED") {
+      throw new Error(
+        `Sessão WhatsApp não está conectada (status: ${session.status}). Aguarde a conexão ser estabelecida.`
+      );
+    }
+
+    if (!session.evolutionApiKey) {
+      throw new Error("API Key não configurada para esta sessão");
+    }
+
+    return { ...session, evolutionApiKey: session.evolutionApiKey };
+  }
+
   /**
    * Enviar mensagem de texto - CORRIGIDO para buscar qualquer sessão ativa
    */
@@ -813,38 +979,7 @@ export class WhatsAppService {
         textLength: text.length,
       });
 
-      // CORRIGIDO: Buscar qualquer sessão ativa, priorizando CONNECTED
-      const session = await prisma.whatsAppSession.findFirst({
-        where: {
-          tenantId: tenantId.toString(),
-          status: { in: ["CONNECTED", "CONNECTING"] },
-        },
-        orderBy: [
-          {
-            status: "asc",
-          },
-          {
-            connectedAt: "desc",
-          },
-        ],
-      });
-
-      if (!session) {
-        throw new Error(
-          `Nenhuma sessão WhatsApp encontrada para tenant ${tenantId}. Execute a conexão primeiro.`
-        );
-      }
-
-      // Verificar se está realmente conectada
-      if (session.status !== "CONNECTED") {
-        throw new Error(
-          `Sessão WhatsApp não está conectada (status: ${session.status}). Aguarde a conexão ser estabelecida.`
-        );
-      }
-
-      if (!session.evolutionApiKey) {
-        throw new Error("API Key não configurada para esta sessão");
-      }
+      const session = await this.getConnectedSession(tenantId);
 
       // Formatar número de telefone
       const formattedNumber = phoneNumber.replace(/\D/g, "");
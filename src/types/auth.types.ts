@@ -0,0 +1,35 @@
+// src/types/auth.types.ts
+// Tipos para autenticação por API Key
+
+export interface AuthContext {
+  keyId: string | null; // null quando autenticado com a chave administrativa
+  tenantId: string | null; // null para a chave administrativa (acesso a todos os tenants)
+  isAdmin: boolean;
+}
+
+export interface IssuedApiKey {
+  id: string;
+  tenantId: string;
+  name: string | null;
+  keyPrefix: string;
+  apiKey: string; // Valor em texto puro - exibido apenas uma vez
+  createdAt: Date;
+}
+
+export interface ApiKeyInfo {
+  id: string;
+  tenantId: string;
+  name: string | null;
+  keyPrefix: string;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthContext;
+    }
+  }
+}
@@ -90,6 +90,13 @@ export interface EvolutionSessionStatus {
   statusReason?: number;
 }
 
+// Resposta de /chat/whatsappNumbers
+export interface EvolutionWhatsAppNumber {
+  exists: boolean;
+  jid: string; // ex: 5511999999999@s.whatsapp.net (número como o WhatsApp conhece)
+  number: string; // número consultado
+}
+
 export interface EvolutionSessionInfo {
   instance?: {
     instanceName: string;
@@ -16,9 +16,100 @@ export enum MessageDirection {
 export enum MessageStatus {
   ENVIADA = 'Enviada',
   RECEBIDA = 'Recebida',
+  ERRO = 'Erro',
+  REENFILEIRADA = 'Reenfileirada' // Item com erro devolvido para a fila
+}
+
+// Canal pelo qual a mensagem foi enviada
+export enum MessageChannelType {
+  WHATSAPP = 'whatsapp', // Evolution API
+  EMAIL = 'email', // SMTP da clínica
+  SMS = 'sms' // Gateway HTTP de SMS
+}
+
+// Confirmação de entrega da mensagem enviada (messages.update)
+export enum DeliveryStatus {
+  ENVIADA = 'Enviada', // Recebida pelo servidor do WhatsApp
+  ENTREGUE = 'Entregue', // Entregue no aparelho do paciente
+  LIDA = 'Lida',
   ERRO = 'Erro'
 }
 
+// Maior prioridade sai antes na fila
+export enum QueuePriority {
+  TRANSACTIONAL = 10, // Respostas de conversa (confirmar/reagendar)
+  REMINDER = 5, // Lembretes de agendamento
+  CAMPAIGN = 0 // Envios em massa
+}
+
+export enum QueueErrorCode {
+  // Transitórios (nova tentativa com backoff)
+  EVOLUTION_SERVER_ERROR = 'EVOLUTION_SERVER_ERROR',
+  EVOLUTION_TIMEOUT = 'EVOLUTION_TIMEOUT',
+  EVOLUTION_UNAVAILABLE = 'EVOLUTION_UNAVAILABLE',
+  SESSION_CONNECTING = 'SESSION_CONNECTING',
+  CHANNEL_UNAVAILABLE = 'CHANNEL_UNAVAILABLE', // SMTP/gateway SMS fora do ar
+  UNKNOWN = 'UNKNOWN',
+  // Permanentes
+  INVALID_NUMBER = 'INVALID_NUMBER',
+  EVOLUTION_REJECTED = 'EVOLUTION_REJECTED',
+  SESSION_NOT_FOUND = 'SESSION_NOT_FOUND',
+  SESSION_DISCONNECTED = 'SESSION_DISCONNECTED',
+  PATIENT_NOT_FOUND = 'PATIENT_NOT_FOUND',
+  PATIENT_NO_PHONE = 'PATIENT_NO_PHONE',
+  PATIENT_NO_WHATSAPP = 'PATIENT_NO_WHATSAPP', // Nenhum telefone (tel1/tel2) possui WhatsApp
+  PATIENT_NO_EMAIL = 'PATIENT_NO_EMAIL',
+  CHANNEL_NOT_CONFIGURED = 'CHANNEL_NOT_CONFIGURED', // SMTP/gateway SMS não configurado
+  CHANNEL_REJECTED = 'CHANNEL_REJECTED', // SMTP/gateway SMS recusou a mensagem
+  TEMPLATE_NOT_FOUND = 'TEMPLATE_NOT_FOUND',
+  // Cancelamentos automáticos (agendamento alterado)
+  SCHEDULE_NOT_FOUND = 'SCHEDULE_NOT_FOUND',
+  SCHEDULE_CANCELLED = 'SCHEDULE_CANCELLED',
+  APPOINTMENT_PASSED = 'APPOINTMENT_PASSED'
+}
+
+export interface QueueProcessingError extends Error {
+  code: QueueErrorCode;
+  transient: boolean;
+}
+
+export interface ProcessItemResult {
+  queueId: number;
+  status: 'sent' | 'retry_scheduled' | 'failed' | 'skipped' | 'held' | 'cancelled';
+  attempt?: number;
+  errorCode?: QueueErrorCode;
+  nextRetryAt?: Date;
+  heldUntil?: Date; // Fora da janela de envio do tenant
+  channel?: MessageChannelType; // Canal usado quando enviado
+}
+
+export interface QueueRunSummary {
+  selected: number;
+  sent: number;
+  retryScheduled: number;
+  failed: number;
+  held: number;
+  cancelled: number;
+  skipped: number;
+}
+
+export interface QueueProcessorStatus {
+  running: boolean; // Timer ativo
+  paused: boolean; // Timer ativo, mas execuções são puladas
+  processing: boolean; // Execução em andamento
+  intervalMinutes: number;
+  batchSize: number;
+  concurrency: number; // Tenants processados em paralelo
+  startedAt: Date | null;
+  lastRunAt: Date | null;
+  lastRunDurationMs: number | null;
+  lastRunSummary: QueueRunSummary | null;
+  lastRunError: string | null;
+  totalRuns: number;
+  totalProcessed: number; // Itens com tentativa de envio (enviados, reagendados ou com erro)
+  totalSent: number;
+}
+
 export interface QueueItem {
   id: number;
   scheduleId: number;
@@ -27,7 +118,12 @@ export interface QueueItem {
   templateId: number;
   status: QueueStatus;
   createdAt: Date;
+  sendAt?: Date;
   sentAt?: Date;
+  attempts: number;
+  lastErrorCode?: QueueErrorCode;
+  lastErrorMessage?: string;
+  nextRetryAt?: Date;
 }
 
 export interface MessageLog {
@@ -40,6 +136,15 @@ export interface MessageLog {
   message: string;
   status?: MessageStatus;
   createdAt: Date;
+  queueId?: number;
+  attempt?: number;
+  errorCode?: QueueErrorCode;
+  errorMessage?: string;
+  channel?: MessageChannelType;
+  externalId?: string; // ID da mensagem na Evolution (ou Message-ID do e-mail)
+  deliveryStatus?: DeliveryStatus;
+  deliveredAt?: Date;
+  readAt?: Date;
 }
 
 export interface ScheduleInfo {
@@ -72,6 +177,50 @@ export interface EnqueueMessageRequest {
   scheduleId: number;
   userId?: number;
   templateType?: string;
+  sendAt?: Date; // Envio agendado; ausente ou no passado = envio imediato
+  priority?: QueuePriority;
+  idempotencyKey?: string; // Header Idempotency-Key
+}
+
+export type ScheduleChangeAction =
+  | 'cancelled'
+  | 'rescheduled' // Lembrete com novo horário de envio
+  | 'updated' // Dados atualizados, envio mantido
+  | 'unchanged';
+
+export interface ScheduleChangeItemResult {
+  queueId: number;
+  action: ScheduleChangeAction;
+  sendAt?: Date | null;
+  reason?: QueueErrorCode;
+}
+
+export interface ScheduleChangeResult {
+  scheduleId: number;
+  items: ScheduleChangeItemResult[];
+}
+
+export interface BulkEnqueueRequest {
+  scheduleIds: number[];
+  userId?: number;
+  templateType?: string;
+  sendAt?: Date;
+  priority?: QueuePriority;
+}
+
+export interface BulkEnqueueItemResult {
+  scheduleId: number;
+  success: boolean;
+  queueId?: number;
+  duplicate?: boolean; // Já existia item ativo/enviado recentemente
+  error?: string;
+}
+
+export interface BulkEnqueueResult {
+  requested: number;
+  enqueued: number;
+  failed: number;
+  results: BulkEnqueueItemResult[];
 }
 
 export interface ProcessedMessage {
@@ -80,4 +229,70 @@ export interface ProcessedMessage {
   patientName: string;
   scheduleDate: string;
   scheduleTime: string;
-}
\ No newline at end of file
+}
+export interface QueueItemFilters {
+  ownerId?: number;
+  status?: QueueStatus;
+  templateType?: string;
+  scheduleId?: number;
+  from?: Date; // Considera send_at (ou created_at quando imediato)
+  to?: Date;
+  cursor?: number; // ID do último item da página anterior
+  limit: number;
+}
+
+export interface QueueItemView {
+  id: number;
+  scheduleId: number;
+  ownerId: number;
+  templateId: number;
+  templateType: string | null;
+  status: QueueStatus;
+  priority: number;
+  patientName: string | null;
+  preview: string | null; // Mensagem renderizada com os dados atuais
+  attempts: number;
+  lastErrorCode: string | null;
+  lastErrorMessage: string | null;
+  createdAt: Date;
+  sendAt: Date | null;
+  sentAt: Date | null;
+  channel: MessageChannelType | null; // Canal que entregou a mensagem
+  nextRetryAt: Date | null;
+}
+
+export interface QueueItemPage {
+  items: QueueItemView[];
+  nextCursor: number | null;
+}
+
+export interface DeadLetterFilters {
+  ownerId?: number;
+  errorCode?: string;
+  templateType?: string;
+  scheduleId?: number;
+  from?: Date; // Considera created_at do item
+  to?: Date;
+}
+
+export interface DeadLetterGroup {
+  errorCode: string | null;
+  total: number;
+  oldestCreatedAt: Date;
+  newestCreatedAt: Date;
+  sampleMessage: string | null;
+}
+
+export interface RequeueResult {
+  requested: number;
+  requeued: number;
+  queueIds: number[];
+}
+
+export type QueueBulkAction = 'cancel' | 'requeue' | 'reschedule';
+
+export interface QueueBulkResult {
+  action: QueueBulkAction;
+  requested: number;
+  affected: number;
+}
@@ -0,0 +1,31 @@
+// src/types/settings.types.ts
+// Tipos para configurações de envio por tenant
+
+import type { MessageChannelType } from "./queue.types";
+
+export interface TenantSettings {
+  ownerId: number;
+  reminderEnabled: boolean;
+  reminderDaysBefore: number; // Dias antes da consulta
+  reminderTime: string; // Horário de envio do lembrete (HH:MM)
+  sendWindowEnabled: boolean; // Restringir envios ao horário comercial
+  sendWindowDays: number[]; // Dias permitidos (0 = domingo ... 6 = sábado)
+  sendWindowStart: string; // Início da janela (HH:MM)
+  sendWindowEnd: string; // Fim da janela (HH:MM)
+  timezone: string; // Fuso IANA (ex: America/Sao_Paulo)
+  messagesPerMinute: number; // Limite de envios por minuto da sessão
+  dailyCap: number; // Limite diário de envios do número (0 = sem limite)
+  channelPriority: MessageChannelType[]; // Canais na ordem de tentativa
+}
+
+// Limites e canais: null = volta ao padrão do .env
+export type TenantSettingsUpdate = Partial<
+  Omit<
+    TenantSettings,
+    "ownerId" | "messagesPerMinute" | "dailyCap" | "channelPriority"
+  >
+> & {
+  messagesPerMinute?: number | null;
+  dailyCap?: number | null;
+  channelPriority?: MessageChannelType[] | null;
+};
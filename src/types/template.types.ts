@@ -0,0 +1,100 @@
+// src/types/template.types.ts
+// Tipos para gerenciamento de templates de mensagem
+
+// Tipos usados pelo sistema: confirmação enviada ao paciente e
+// respostas da conversa (1 = confirmar, 2 = reagendar)
+export const TEMPLATE_TYPES = ["confirmacao", "confirmar", "reagendar"] as const;
+
+export type TemplateType = (typeof TEMPLATE_TYPES)[number];
+
+export interface TemplateFilters {
+  type?: TemplateType;
+  active?: boolean;
+}
+
+export interface TemplateCreate {
+  type: TemplateType;
+  content: string;
+  active: boolean;
+  channels: string | null; // Prioridade de canais (NULL = a do tenant)
+}
+
+export type TemplateUpdate = Partial<Omit<TemplateCreate, "active">>;
+
+// Dados usados para renderizar um template
+export interface TemplateRenderData {
+  patient: {
+    name: string;
+    birthDate: Date | null;
+    parentName: string | null;
+  };
+  schedule: {
+    dates: Date;
+    times: string | null;
+    procedures: string | null;
+    price: string | null;
+    sedation: boolean;
+    surgery: boolean;
+    laboratory: boolean;
+  };
+  clinic: {
+    name: string | null; // of_clients.client_name
+    friendlyName: string | null; // of_clients.friendly_name
+    address: string | null;
+  } | null;
+  professional: string | null; // Profissional do agendamento (of_schedules.partner)
+  timezone: string; // Fuso do tenant (dia relativo: hoje/amanhã)
+}
+
+// Variáveis ({nome}) e condições ({#se sedacao}...{/se}) de um template
+export interface TemplateContext {
+  variables: Record<string, string>;
+  flags: Record<string, boolean>;
+}
+
+export interface TemplateAnalysis {
+  text: string;
+  unresolved: string[]; // Placeholders sem variável/condição correspondente
+  emptyVariables: string[]; // Variáveis usadas que ficaram vazias
+  unbalancedConditionals: boolean; // {#se} sem {/se} (ou o contrário)
+}
+
+// Colunas do agendamento e do paciente usadas nos templates
+export interface TemplateSource {
+  patients_name: string | null;
+  patients_dateb?: Date | null;
+  parent_name?: string | null;
+  dates: Date;
+  times: string | null;
+  procedures: string | null;
+  partner?: number | null;
+  professional?: string | null; // Nome já conhecido (dispensa busca por partner)
+  price?: string | null;
+  sedation?: boolean | number | null;
+  surgery?: boolean | number | null;
+  laboratory?: boolean | number | null;
+}
+
+// Dados de exemplo para pré-visualização sem agendamento
+export interface TemplateSample {
+  patientName?: string;
+  birthDate?: Date;
+  parentName?: string;
+  dates?: Date;
+  times?: string;
+  procedures?: string;
+  price?: string;
+  professional?: string;
+  sedation?: boolean;
+  surgery?: boolean;
+  laboratory?: boolean;
+}
+
+export interface TemplatePreview {
+  text: string;
+  length: number;
+  dataSource: "schedule" | "sample";
+  unresolved: string[];
+  warnings: string[];
+  variables: Record<string, string>;
+}
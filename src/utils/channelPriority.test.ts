@@ -0,0 +1,59 @@
+// src/utils/channelPriority.test.ts
+
+import {
+  getDefaultChannelPriority,
+  parseChannelPriority,
+  resolveChannelPriority,
+} from "./channelPriority";
+import { config } from "../config/config";
+import { MessageChannelType } from "../types/queue.types";
+
+describe("channelPriority", () => {
+  const original = config.channelPriority;
+
+  afterEach(() => {
+    config.channelPriority = original;
+  });
+
+  it("normaliza a lista e ignora canais desconhecidos e repetidos", () => {
+    expect(parseChannelPriority(" SMS,email,fax,sms ")).toEqual([
+      MessageChannelType.SMS,
+      MessageChannelType.EMAIL,
+    ]);
+    expect(parseChannelPriority(["whatsapp", "email"])).toEqual([
+      MessageChannelType.WHATSAPP,
+      MessageChannelType.EMAIL,
+    ]);
+    expect(parseChannelPriority(null)).toEqual([]);
+  });
+
+  it("prioriza os canais do template sobre os do tenant", () => {
+    expect(
+      resolveChannelPriority("email", [
+        MessageChannelType.WHATSAPP,
+        MessageChannelType.SMS,
+      ])
+    ).toEqual([MessageChannelType.EMAIL]);
+  });
+
+  it("usa os canais do tenant quando o template não define", () => {
+    expect(resolveChannelPriority(null, [MessageChannelType.SMS])).toEqual([
+      MessageChannelType.SMS,
+    ]);
+  });
+
+  it("cai no CHANNEL_PRIORITY sem template nem tenant", () => {
+    config.channelPriority = ["email", "whatsapp"];
+
+    expect(resolveChannelPriority("", [])).toEqual([
+      MessageChannelType.EMAIL,
+      MessageChannelType.WHATSAPP,
+    ]);
+  });
+
+  it("usa WhatsApp quando CHANNEL_PRIORITY é inválido", () => {
+    config.channelPriority = ["pombo"];
+
+    expect(getDefaultChannelPriority()).toEqual([MessageChannelType.WHATSAPP]);
+  });
+});
@@ -0,0 +1,50 @@
+// src/utils/channelPriority.ts
+// Ordem de tentativa dos canais de envio (tenant, template e padrão do .env)
+
+import { config } from "../config/config";
+import { MessageChannelType } from "../types/queue.types";
+
+const CHANNEL_TYPES = Object.values(MessageChannelType) as string[];
+
+/**
+ * Converte lista ("whatsapp,email" ou array) em canais válidos, sem repetição
+ * Valores desconhecidos são ignorados.
+ */
+export const parseChannelPriority = (
+  value: string | string[] | null | undefined
+): MessageChannelType[] => {
+  if (!value) return [];
+
+  const list = Array.isArray(value) ? value : value.split(",");
+
+  return [
+    ...new Set(
+      list
+        .map((channel) => channel.trim().toLowerCase())
+        .filter((channel) => CHANNEL_TYPES.includes(channel))
+    ),
+  ] as MessageChannelType[];
+};
+
+/**
+ * Prioridade padrão (CHANNEL_PRIORITY), com WhatsApp se a variável for inválida
+ */
+export const getDefaultChannelPriority = (): MessageChannelType[] => {
+  const channels = parseChannelPriority(config.channelPriority);
+  return channels.length > 0 ? channels : [MessageChannelType.WHATSAPP];
+};
+
+/**
+ * Canais a tentar para um envio: os do template, senão os do tenant
+ */
+export const resolveChannelPriority = (
+  templateChannels: string | null | undefined,
+  tenantChannels: MessageChannelType[]
+): MessageChannelType[] => {
+  const channels = parseChannelPriority(templateChannels);
+  if (channels.length > 0) return channels;
+
+  return tenantChannels.length > 0
+    ? tenantChannels
+    : getDefaultChannelPriority();
+};
@@ -77,6 +77,32 @@ export const formatTime = (time: string): string => {
   return time;
 };
 
+/**
+ * Formata valor em reais ("150.5", "1.500,00" → "R$ 150,50", "R$ 1.500,00")
+ * Valores não numéricos são retornados como estão.
+ */
+export const formatCurrency = (value: string | number | null): string => {
+  if (value === null || value === undefined) return "";
+
+  const raw = String(value).trim();
+  if (raw === "") return "";
+
+  // Formato brasileiro: ponto como milhar e vírgula como decimal
+  const digits = raw.replace(/^R\$\s*/i, "");
+  const amount = Number(
+    digits.includes(",") ? digits.replace(/\./g, "").replace(",", ".") : digits
+  );
+
+  if (!Number.isFinite(amount)) return raw;
+
+  return new Intl.NumberFormat("pt-BR", {
+    style: "currency",
+    currency: "BRL",
+  })
+    .format(amount)
+    .replace(/\u00a0/g, " ");
+};
+
 /**
  * Valida se o telefone é válido para WhatsApp
  */
@@ -0,0 +1,81 @@
+// src/utils/queueErrors.test.ts
+
+import { AxiosError, AxiosResponse } from "axios";
+import { config } from "../config/config";
+import { QueueErrorCode } from "../types/queue.types";
+import {
+  classifySendError,
+  computeRetryAt,
+  createQueueError,
+} from "./queueErrors";
+
+const axiosError = (status?: number, data: unknown = {}, code?: string) =>
+  new AxiosError(
+    "Request failed",
+    code,
+    undefined,
+    {},
+    status
+      ? ({ status, data, headers: {}, config: {} } as AxiosResponse)
+      : undefined
+  );
+
+describe("classifySendError", () => {
+  it.each([
+    ["5xx", axiosError(502), QueueErrorCode.EVOLUTION_SERVER_ERROR, true],
+    [
+      "timeout",
+      axiosError(undefined, {}, "ECONNABORTED"),
+      QueueErrorCode.EVOLUTION_TIMEOUT,
+      true,
+    ],
+    [
+      "conexão recusada",
+      axiosError(undefined, {}, "ECONNREFUSED"),
+      QueueErrorCode.EVOLUTION_UNAVAILABLE,
+      true,
+    ],
+    [
+      "número sem WhatsApp",
+      axiosError(400, { exists: false }),
+      QueueErrorCode.INVALID_NUMBER,
+      false,
+    ],
+    [
+      "4xx",
+      axiosError(401, { message: "unauthorized" }),
+      QueueErrorCode.EVOLUTION_REJECTED,
+      false,
+    ],
+    ["erro desconhecido", new Error("boom"), QueueErrorCode.UNKNOWN, true],
+  ])("classifica %s", (_case, error, code, transient) => {
+    const classified = classifySendError(error);
+
+    expect(classified.code).toBe(code);
+    expect(classified.transient).toBe(transient);
+  });
+
+  it("mantém erros já classificados", () => {
+    const error = createQueueError("Sem telefone", QueueErrorCode.PATIENT_NO_PHONE);
+
+    expect(classifySendError(error)).toBe(error);
+    expect(error.transient).toBe(false);
+  });
+});
+
+describe("computeRetryAt", () => {
+  const now = new Date("2026-01-01T00:00:00Z");
+  const delayOf = (attempt: number) =>
+    (computeRetryAt(attempt, now).getTime() - now.getTime()) / 1000;
+
+  it("dobra o intervalo a cada tentativa", () => {
+    expect(delayOf(1)).toBe(config.queueRetryBaseDelay);
+    expect(delayOf(2)).toBe(
+      Math.min(config.queueRetryBaseDelay * 2, config.queueRetryMaxDelay)
+    );
+  });
+
+  it("respeita o intervalo máximo", () => {
+    expect(delayOf(50)).toBe(config.queueRetryMaxDelay);
+  });
+});
@@ -0,0 +1,112 @@
+// src/utils/queueErrors.ts
+// Classificação de erros da fila (transitórios x permanentes) e cálculo de backoff
+
+import { AxiosError } from "axios";
+import { config } from "../config/config";
+import {
+  QueueErrorCode,
+  QueueProcessingError,
+} from "../types/queue.types";
+
+const TRANSIENT_CODES = new Set<QueueErrorCode>([
+  QueueErrorCode.EVOLUTION_SERVER_ERROR,
+  QueueErrorCode.EVOLUTION_TIMEOUT,
+  QueueErrorCode.EVOLUTION_UNAVAILABLE,
+  QueueErrorCode.SESSION_CONNECTING,
+  QueueErrorCode.CHANNEL_UNAVAILABLE,
+  QueueErrorCode.UNKNOWN,
+]);
+
+/**
+ * Criar erro de processamento da fila com código
+ */
+export const createQueueError = (
+  message: string,
+  code: QueueErrorCode
+): QueueProcessingError => {
+  const error = new Error(message) as QueueProcessingError;
+  error.code = code;
+  error.transient = TRANSIENT_CODES.has(code);
+  return error;
+};
+
+/**
+ * Verifica se o erro já foi classificado
+ */
+export const isQueueError = (
+  error: unknown
+): error is QueueProcessingError => {
+  if (!(error instanceof Error)) return false;
+
+  const { code, transient } = error as Partial<QueueProcessingError>;
+  return (
+    Object.values(QueueErrorCode).includes(code as QueueErrorCode) &&
+    typeof transient === "boolean"
+  );
+};
+
+/**
+ * Classifica erro de envio (Evolution API, rede, etc.)
+ */
+export const classifySendError = (error: unknown): QueueProcessingError => {
+  if (isQueueError(error)) {
+    return error;
+  }
+
+  if (error instanceof AxiosError) {
+    const status = error.response?.status;
+
+    if (status && status >= 500) {
+      return createQueueError(
+        `Evolution API retornou ${status}`,
+        QueueErrorCode.EVOLUTION_SERVER_ERROR
+      );
+    }
+
+    if (status) {
+      // Evolution responde 400 com "exists: false" para números sem WhatsApp
+      const body = JSON.stringify(error.response?.data ?? {});
+      if (body.includes('"exists":false')) {
+        return createQueueError(
+          "Número não possui WhatsApp",
+          QueueErrorCode.INVALID_NUMBER
+        );
+      }
+
+      return createQueueError(
+        `Evolution API rejeitou a mensagem (${status}): ${body.substring(0, 200)}`,
+        QueueErrorCode.EVOLUTION_REJECTED
+      );
+    }
+
+    if (error.code === "ECONNABORTED" || error.code === "ETIMEDOUT") {
+      return createQueueError(
+        "Tempo esgotado ao chamar Evolution API",
+        QueueErrorCode.EVOLUTION_TIMEOUT
+      );
+    }
+
+    return createQueueError(
+      `Evolution API indisponível: ${error.message}`,
+      QueueErrorCode.EVOLUTION_UNAVAILABLE
+    );
+  }
+
+  return createQueueError(
+    (error as { message?: string } | null)?.message || String(error),
+    QueueErrorCode.UNKNOWN
+  );
+};
+
+/**
+ * Calcula a próxima tentativa com backoff exponencial
+ * @param attempt Número da tentativa que falhou (1 = primeira)
+ */
+export const computeRetryAt = (attempt: number, now: Date = new Date()): Date => {
+  const delaySeconds = Math.min(
+    config.queueRetryBaseDelay * Math.pow(2, Math.max(0, attempt - 1)),
+    config.queueRetryMaxDelay
+  );
+
+  return new Date(now.getTime() + delaySeconds * 1000);
+};
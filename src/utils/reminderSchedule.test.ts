@@ -0,0 +1,69 @@
+// src/utils/reminderSchedule.test.ts
+
+import { computeReminderSendAt, getAppointmentAt } from "./reminderSchedule";
+
+// Coluna DATE chega como meia-noite UTC
+const schedule = {
+  dates: new Date("2026-03-10T00:00:00Z"),
+  times: "14:30",
+};
+
+const settings = {
+  reminderDaysBefore: 1,
+  reminderTime: "10:00",
+  timezone: "America/Sao_Paulo",
+};
+
+describe("getAppointmentAt", () => {
+  it("interpreta data e hora no fuso do tenant", () => {
+    expect(
+      getAppointmentAt(schedule.dates, "14:30", "America/Sao_Paulo")
+    ).toEqual(new Date("2026-03-10T17:30:00Z"));
+    expect(getAppointmentAt(schedule.dates, "0900", "Asia/Tokyo")).toEqual(
+      new Date("2026-03-10T00:00:00Z")
+    );
+  });
+});
+
+describe("computeReminderSendAt", () => {
+  const now = new Date("2026-03-01T12:00:00Z");
+
+  it("agenda no horário configurado do fuso do tenant", () => {
+    expect(computeReminderSendAt(schedule, settings, now)).toEqual(
+      new Date("2026-03-09T13:00:00Z")
+    );
+    expect(
+      computeReminderSendAt(
+        schedule,
+        { ...settings, timezone: "Asia/Tokyo" },
+        now
+      )
+    ).toEqual(new Date("2026-03-09T01:00:00Z"));
+  });
+
+  it("volta ao mês anterior quando necessário", () => {
+    expect(
+      computeReminderSendAt(
+        { dates: new Date("2026-03-01T00:00:00Z"), times: "08:00" },
+        settings,
+        new Date("2026-02-20T00:00:00Z")
+      )
+    ).toEqual(new Date("2026-02-28T13:00:00Z"));
+  });
+
+  it("envia agora se o horário do lembrete já passou", () => {
+    const late = new Date("2026-03-09T20:00:00Z");
+
+    expect(computeReminderSendAt(schedule, settings, late)).toEqual(late);
+  });
+
+  it("retorna null se a consulta já passou no fuso do tenant", () => {
+    // 17:00 UTC = 14:00 em São Paulo, antes da consulta
+    expect(
+      computeReminderSendAt(schedule, settings, new Date("2026-03-10T17:00:00Z"))
+    ).toEqual(new Date("2026-03-10T17:00:00Z"));
+    expect(
+      computeReminderSendAt(schedule, settings, new Date("2026-03-10T17:30:00Z"))
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+// src/utils/reminderSchedule.ts
+// Cálculo do horário de envio dos lembretes de confirmação
+
+import { zonedTimeToDate } from "./sendWindow";
+import type { TenantSettings } from "../types/settings.types";
+
+export const REMINDER_TEMPLATE_TYPE = "confirmacao";
+
+/**
+ * Converte "HH:MM" (ou "HHMM") em [hora, minuto]
+ */
+export const parseScheduleTime = (time: string | null): [number, number] => {
+  if (!time) return [0, 0];
+
+  if (time.includes(":")) {
+    const [hour, minute] = time.split(":");
+    return [Number(hour) || 0, Number(minute) || 0];
+  }
+
+  const digits = time.replace(/\D/g, "").padStart(4, "0");
+  return [Number(digits.substring(0, 2)), Number(digits.substring(2, 4))];
+};
+
+/**
+ * Data/hora da consulta no fuso do tenant (coluna DATE chega como meia-noite UTC)
+ */
+export const getAppointmentAt = (
+  dates: Date,
+  times: string | null,
+  timezone: string
+): Date => {
+  const appointmentDate = new Date(dates);
+  const [hour, minute] = parseScheduleTime(times);
+
+  return zonedTimeToDate(
+    appointmentDate.getUTCFullYear(),
+    appointmentDate.getUTCMonth() + 1,
+    appointmentDate.getUTCDate(),
+    hour * 60 + minute,
+    timezone
+  );
+};
+
+/**
+ * Calcula quando o lembrete deve sair conforme configuração do tenant
+ * (dias antes da consulta, no horário configurado e no fuso do tenant)
+ * @returns Data de envio ou null se a consulta já passou
+ */
+export const computeReminderSendAt = (
+  schedule: { dates: Date; times: string | null },
+  settings: Pick<
+    TenantSettings,
+    "reminderDaysBefore" | "reminderTime" | "timezone"
+  >,
+  now: Date = new Date()
+): Date | null => {
+  const appointmentAt = getAppointmentAt(
+    schedule.dates,
+    schedule.times,
+    settings.timezone
+  );
+  const [reminderHour, reminderMinute] = parseScheduleTime(
+    settings.reminderTime
+  );
+
+  if (appointmentAt.getTime() <= now.getTime()) {
+    return null;
+  }
+
+  // Date.UTC normaliza o dia antes do início do mês
+  const appointmentDate = new Date(schedule.dates);
+  const reminderDay = new Date(
+    Date.UTC(
+      appointmentDate.getUTCFullYear(),
+      appointmentDate.getUTCMonth(),
+      appointmentDate.getUTCDate() - settings.reminderDaysBefore
+    )
+  );
+
+  const sendAt = zonedTimeToDate(
+    reminderDay.getUTCFullYear(),
+    reminderDay.getUTCMonth() + 1,
+    reminderDay.getUTCDate(),
+    reminderHour * 60 + reminderMinute,
+    settings.timezone
+  );
+
+  // Horário configurado já passou (ou cairia após a consulta): enviar agora
+  if (
+    sendAt.getTime() <= now.getTime() ||
+    sendAt.getTime() >= appointmentAt.getTime()
+  ) {
+    return now;
+  }
+
+  return sendAt;
+};
@@ -0,0 +1,29 @@
+// src/utils/security.ts
+// Funções utilitárias de segurança (segredos e comparação de credenciais)
+
+import crypto from "crypto";
+
+/**
+ * Gera segredo aleatório em hexadecimal
+ */
+export const generateSecret = (bytes: number = 32): string => {
+  return crypto.randomBytes(bytes).toString("hex");
+};
+
+/**
+ * Compara duas credenciais em tempo constante
+ */
+export const safeCompare = (
+  received: string | null | undefined,
+  expected: string | null | undefined
+): boolean => {
+  if (!received || !expected) return false;
+
+  const bufferA = Buffer.from(received);
+  const bufferB = Buffer.from(expected);
+
+  return (
+    bufferA.length === bufferB.length &&
+    crypto.timingSafeEqual(bufferA, bufferB)
+  );
+};
@@ -0,0 +1,86 @@
+// src/utils/sendWindow.test.ts
+
+import {
+  getNextSendWindowStart,
+  getStartOfDay,
+  isValidTimezone,
+} from "./sendWindow";
+
+// Segunda a sexta, 08:00-18:00 em São Paulo (UTC-3)
+const settings = {
+  sendWindowEnabled: true,
+  sendWindowDays: [1, 2, 3, 4, 5],
+  sendWindowStart: "08:00",
+  sendWindowEnd: "18:00",
+  timezone: "America/Sao_Paulo",
+};
+
+describe("getNextSendWindowStart", () => {
+  it("permite envio dentro da janela", () => {
+    // Quarta-feira, 10:00 em São Paulo
+    const now = new Date("2026-03-11T13:00:00Z");
+
+    expect(getNextSendWindowStart(settings, now)).toBeNull();
+  });
+
+  it("segura até a abertura do mesmo dia", () => {
+    // Quarta-feira, 06:00 em São Paulo
+    const now = new Date("2026-03-11T09:00:00Z");
+
+    expect(getNextSendWindowStart(settings, now)).toEqual(
+      new Date("2026-03-11T11:00:00Z")
+    );
+  });
+
+  it("segura até o próximo dia útil após o fechamento", () => {
+    // Sexta-feira, 19:00 em São Paulo -> segunda 08:00
+    const now = new Date("2026-03-13T22:00:00Z");
+
+    expect(getNextSendWindowStart(settings, now)).toEqual(
+      new Date("2026-03-16T11:00:00Z")
+    );
+  });
+
+  it("usa o fuso do tenant, não o do servidor", () => {
+    // 23:00 UTC de quarta = 08:00 de quinta em Tóquio
+    const now = new Date("2026-03-11T23:00:00Z");
+
+    expect(
+      getNextSendWindowStart({ ...settings, timezone: "Asia/Tokyo" }, now)
+    ).toBeNull();
+  });
+
+  it("não segura com a janela desativada ou inválida", () => {
+    const now = new Date("2026-03-11T09:00:00Z");
+
+    expect(
+      getNextSendWindowStart({ ...settings, sendWindowEnabled: false }, now)
+    ).toBeNull();
+    expect(
+      getNextSendWindowStart(
+        { ...settings, sendWindowStart: "18:00", sendWindowEnd: "08:00" },
+        now
+      )
+    ).toBeNull();
+  });
+});
+
+describe("getStartOfDay", () => {
+  it("retorna meia-noite no fuso informado", () => {
+    const now = new Date("2026-03-11T02:00:00Z"); // 23:00 de 10/03 em SP
+
+    expect(getStartOfDay("America/Sao_Paulo", now)).toEqual(
+      new Date("2026-03-10T03:00:00Z")
+    );
+    expect(getStartOfDay("America/Sao_Paulo", now, 1)).toEqual(
+      new Date("2026-03-11T03:00:00Z")
+    );
+  });
+});
+
+describe("isValidTimezone", () => {
+  it("aceita apenas fusos IANA", () => {
+    expect(isValidTimezone("America/Sao_Paulo")).toBe(true);
+    expect(isValidTimezone("Marte/Olympus")).toBe(false);
+  });
+});
@@ -0,0 +1,168 @@
+// src/utils/sendWindow.ts
+// Janela de envio por tenant (dias da semana, horário e fuso)
+
+import type { TenantSettings } from "../types/settings.types";
+
+type SendWindowSettings = Pick<
+  TenantSettings,
+  | "sendWindowEnabled"
+  | "sendWindowDays"
+  | "sendWindowStart"
+  | "sendWindowEnd"
+  | "timezone"
+>;
+
+interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  weekday: number; // 0 = domingo
+  minutes: number; // minutos desde 00:00
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Verifica se o fuso horário é válido (IANA, ex: America/Sao_Paulo)
+ */
+export const isValidTimezone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Converte "HH:MM" em minutos desde 00:00
+ */
+const toMinutes = (time: string): number => {
+  const [hour, minute] = time.split(":");
+  return (Number(hour) || 0) * 60 + (Number(minute) || 0);
+};
+
+/**
+ * Data/hora local no fuso informado
+ */
+const getZonedParts = (date: Date, timezone: string): ZonedParts => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    weekday: "short",
+    hour: "numeric",
+    minute: "numeric",
+    hourCycle: "h23",
+  }).formatToParts(date);
+
+  const get = (type: string) =>
+    parts.find((part) => part.type === type)?.value ?? "";
+
+  return {
+    year: Number(get("year")),
+    month: Number(get("month")),
+    day: Number(get("day")),
+    weekday: WEEKDAYS.indexOf(get("weekday")),
+    minutes: Number(get("hour")) * 60 + Number(get("minute")),
+  };
+};
+
+/**
+ * Converte data/hora local do fuso para o instante UTC correspondente
+ */
+export const zonedTimeToDate = (
+  year: number,
+  month: number,
+  day: number,
+  minutes: number,
+  timezone: string
+): Date => {
+  const guess = Date.UTC(year, month - 1, day, 0, minutes);
+  const local = getZonedParts(new Date(guess), timezone);
+  const localAsUtc = Date.UTC(
+    local.year,
+    local.month - 1,
+    local.day,
+    0,
+    local.minutes
+  );
+
+  return new Date(guess - (localAsUtc - guess));
+};
+
+/**
+ * Calcula quando a janela de envio abre
+ * @returns null se o envio é permitido agora (ou janela desativada)
+ */
+export const getNextSendWindowStart = (
+  settings: SendWindowSettings,
+  now: Date = new Date()
+): Date | null => {
+  if (!settings.sendWindowEnabled || settings.sendWindowDays.length === 0) {
+    return null;
+  }
+
+  const start = toMinutes(settings.sendWindowStart);
+  const end = toMinutes(settings.sendWindowEnd);
+
+  // Janela inválida (salva antes da validação) nunca abriria: não segurar
+  if (start >= end) {
+    return null;
+  }
+
+  const local = getZonedParts(now, settings.timezone);
+
+  if (
+    settings.sendWindowDays.includes(local.weekday) &&
+    local.minutes >= start &&
+    local.minutes < end
+  ) {
+    return null;
+  }
+
+  // Procurar a próxima abertura nos próximos 7 dias
+  for (let offset = 0; offset <= 7; offset++) {
+    const weekday = (local.weekday + offset) % 7;
+
+    if (!settings.sendWindowDays.includes(weekday)) continue;
+    if (offset === 0 && local.minutes >= start) continue;
+
+    // Date.UTC normaliza o dia além do fim do mês
+    const day = new Date(Date.UTC(local.year, local.month - 1, local.day + offset));
+
+    return zonedTimeToDate(
+      day.getUTCFullYear(),
+      day.getUTCMonth() + 1,
+      day.getUTCDate(),
+      start,
+      settings.timezone
+    );
+  }
+
+  return null;
+};
+
+/**
+ * Início do dia (00:00) no fuso informado
+ * @param daysAhead 0 = hoje, 1 = amanhã
+ */
+export const getStartOfDay = (
+  timezone: string,
+  now: Date = new Date(),
+  daysAhead: number = 0
+): Date => {
+  const local = getZonedParts(now, timezone);
+  const day = new Date(
+    Date.UTC(local.year, local.month - 1, local.day + daysAhead)
+  );
+
+  return zonedTimeToDate(
+    day.getUTCFullYear(),
+    day.getUTCMonth() + 1,
+    day.getUTCDate(),
+    0,
+    timezone
+  );
+};
@@ -0,0 +1,110 @@
+// src/utils/templateEngine.test.ts
+
+import {
+  analyzeTemplate,
+  buildTemplateContext,
+  renderTemplate,
+} from "./templateEngine";
+import type { TemplateRenderData } from "../types/template.types";
+
+const now = new Date("2024-03-10T12:00:00Z"); // domingo
+
+const buildData = (
+  overrides: Partial<TemplateRenderData> = {}
+): TemplateRenderData => ({
+  patient: {
+    name: "Maria da Silva",
+    birthDate: new Date("1990-05-20T00:00:00Z"),
+    parentName: "José da Silva",
+  },
+  schedule: {
+    dates: new Date("2024-03-11T00:00:00Z"),
+    times: "1430",
+    procedures: null,
+    price: "150.5",
+    sedation: true,
+    surgery: false,
+    laboratory: false,
+  },
+  clinic: {
+    name: "Clínica Sorriso Ltda",
+    friendlyName: "Sorriso",
+    address: "Rua X, 123 - Centro",
+  },
+  professional: null,
+  timezone: "America/Sao_Paulo",
+  ...overrides,
+});
+
+const render = (template: string, data = buildData()) =>
+  renderTemplate(template, buildTemplateContext(data, now));
+
+describe("templateEngine", () => {
+  it("substitui variáveis do paciente, agendamento e clínica", () => {
+    expect(
+      render(
+        "{primeiro_nome}, {dia_relativo} ({dia_semana}) às {hora}: " +
+          "{procedimentos} por {valor} na {nome_fantasia} ({clinica}), {endereco}"
+      )
+    ).toBe(
+      "Maria, amanhã (segunda-feira) às 14:30: Consulta por R$ 150,50 " +
+        "na Sorriso (Clínica Sorriso Ltda), Rua X, 123 - Centro"
+    );
+  });
+
+  it("calcula o dia relativo no fuso do tenant", () => {
+    const late = new Date("2024-03-11T02:30:00Z"); // 23:30 do dia 10 em São Paulo
+    const context = buildTemplateContext(buildData(), late);
+
+    expect(context.variables.dia_relativo).toBe("amanhã");
+    expect(
+      buildTemplateContext(
+        buildData({
+          schedule: {
+            ...buildData().schedule,
+            dates: new Date("2024-03-25T00:00:00Z"),
+          },
+        }),
+        now
+      ).variables.dia_relativo
+    ).toBe("no dia 25/03");
+  });
+
+  it("resolve condições por flag, variável e negação, inclusive aninhadas", () => {
+    expect(
+      render(
+        "{#se sedacao}Jejum de 8h.{#se !cirurgia} Sem cirurgia.{/se}{/se}" +
+          "{#se profissional} Com {profissional}.{/se}{#se !profissional} Sem profissional.{/se}"
+      )
+    ).toBe("Jejum de 8h. Sem cirurgia. Sem profissional.");
+  });
+
+  it("preenche {responsavel} apenas para menores na data da consulta", () => {
+    const minor = buildData({
+      patient: {
+        name: "Pedro",
+        birthDate: new Date("2010-01-01T00:00:00Z"),
+        parentName: " Ana ",
+      },
+    });
+
+    expect(render("{#se menor}Responsável: {responsavel}{/se}", minor)).toBe(
+      "Responsável: Ana"
+    );
+    expect(render("[{responsavel}]")).toBe("[]");
+  });
+
+  it("mantém variáveis desconhecidas e informa o que não foi resolvido", () => {
+    const analysis = analyzeTemplate(
+      "Olá {nome} {apelido}{#se vip} VIP{/se} {profissional} {#se sedacao}",
+      buildTemplateContext(buildData(), now)
+    );
+
+    expect(analysis.text).toBe(
+      "Olá Maria da Silva {apelido}  {#se sedacao}"
+    );
+    expect(analysis.unresolved).toEqual(["{#se vip}", "{apelido}"]);
+    expect(analysis.emptyVariables).toEqual(["profissional"]);
+    expect(analysis.unbalancedConditionals).toBe(true);
+  });
+});
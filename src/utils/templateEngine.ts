@@ -0,0 +1,208 @@
+// src/utils/templateEngine.ts
+// Renderização de templates: variáveis ({nome}) e condições ({#se sedacao}...{/se})
+
+import { formatCurrency, formatDate, formatTime } from "./formatters";
+import type {
+  TemplateAnalysis,
+  TemplateContext,
+  TemplateRenderData,
+} from "../types/template.types";
+
+const WEEKDAYS = [
+  "domingo",
+  "segunda-feira",
+  "terça-feira",
+  "quarta-feira",
+  "quinta-feira",
+  "sexta-feira",
+  "sábado",
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Bloco condicional mais interno: {#se nome}...{/se} ou {#se !nome}...{/se}
+const CONDITIONAL_REGEX =
+  /\{#se\s+(!?)(\w+)\s*\}((?:(?!\{#se\s)[\s\S])*?)\{\/se\}/gi;
+
+const VARIABLE_REGEX = /\{(\w+)\}/g;
+
+/**
+ * Data (YYYY-MM-DD) de hoje no fuso do tenant
+ */
+const getTodayInTimezone = (timezone: string, now: Date): string => {
+  try {
+    return new Intl.DateTimeFormat("en-CA", { timeZone: timezone }).format(now);
+  } catch {
+    return now.toISOString().substring(0, 10);
+  }
+};
+
+/**
+ * "hoje", "amanhã", "depois de amanhã" ou "no dia DD/MM"
+ * (colunas DATE chegam como meia-noite UTC)
+ */
+const getRelativeDay = (dates: Date, timezone: string, now: Date): string => {
+  const appointmentDay = new Date(dates).toISOString().substring(0, 10);
+  const today = getTodayInTimezone(timezone, now);
+  const diffDays = Math.round(
+    (Date.parse(appointmentDay) - Date.parse(today)) / DAY_MS
+  );
+
+  if (diffDays === 0) return "hoje";
+  if (diffDays === 1) return "amanhã";
+  if (diffDays === 2) return "depois de amanhã";
+
+  return `no dia ${appointmentDay.substring(8, 10)}/${appointmentDay.substring(5, 7)}`;
+};
+
+/**
+ * Paciente menor de idade na data da consulta
+ */
+const isMinor = (birthDate: Date | null, dates: Date): boolean => {
+  if (!birthDate) return false;
+
+  const birth = new Date(birthDate);
+  const appointment = new Date(dates);
+  const adulthood = new Date(
+    Date.UTC(
+      birth.getUTCFullYear() + 18,
+      birth.getUTCMonth(),
+      birth.getUTCDate()
+    )
+  );
+
+  return appointment < adulthood;
+};
+
+/**
+ * Monta variáveis e condições disponíveis nos templates
+ *
+ * Variáveis: {nome}, {primeiro_nome}, {responsavel}, {data}, {hora},
+ * {dia_semana}, {dia_relativo}, {procedimentos}, {valor}, {profissional},
+ * {clinica}, {nome_fantasia}, {endereco}
+ *
+ * Condições: sedacao, cirurgia, laboratorio, menor e qualquer variável
+ * preenchida (ex: {#se profissional}com {profissional}{/se})
+ */
+export const buildTemplateContext = (
+  data: TemplateRenderData,
+  now: Date = new Date()
+): TemplateContext => {
+  const { patient, schedule, clinic } = data;
+  const minor = isMinor(patient.birthDate, schedule.dates);
+  const firstName = patient.name.trim().split(/\s+/)[0] || "";
+  const appointmentDay = new Date(schedule.dates);
+
+  return {
+    variables: {
+      nome: patient.name,
+      primeiro_nome: firstName,
+      responsavel: minor ? patient.parentName?.trim() || "" : "",
+      data: formatDate(schedule.dates),
+      hora: formatTime(schedule.times ?? ""),
+      dia_semana: WEEKDAYS[appointmentDay.getUTCDay()],
+      dia_relativo: getRelativeDay(schedule.dates, data.timezone, now),
+      procedimentos: schedule.procedures || "Consulta",
+      valor: formatCurrency(schedule.price),
+      profissional: data.professional?.trim() || "",
+      clinica: clinic?.name || clinic?.friendlyName || "",
+      nome_fantasia: clinic?.friendlyName || clinic?.name || "",
+      endereco: clinic?.address || "",
+    },
+    flags: {
+      sedacao: schedule.sedation,
+      cirurgia: schedule.surgery,
+      laboratorio: schedule.laboratory,
+      menor: minor,
+    },
+  };
+};
+
+/**
+ * Condição verdadeira: flag ativa ou variável preenchida
+ */
+const isConditionTrue = (context: TemplateContext, name: string): boolean => {
+  const key = name.toLowerCase();
+
+  if (key in context.flags) return context.flags[key];
+
+  return (context.variables[key] ?? "").trim() !== "";
+};
+
+/**
+ * Resolve os blocos condicionais, de dentro para fora
+ * @param unknown Recebe as condições que não são flag nem variável
+ */
+const resolveConditionals = (
+  template: string,
+  context: TemplateContext,
+  unknown: Set<string>
+): string => {
+  let rendered = template;
+  let previous: string;
+
+  do {
+    previous = rendered;
+    rendered = rendered.replace(
+      CONDITIONAL_REGEX,
+      (_match, negate: string, name: string, body: string) => {
+        const key = name.toLowerCase();
+
+        if (!(key in context.flags) && !(key in context.variables)) {
+          unknown.add(`{#se ${negate}${name}}`);
+        }
+
+        return isConditionTrue(context, name) !== (negate === "!") ? body : "";
+      }
+    );
+  } while (rendered !== previous);
+
+  return rendered;
+};
+
+/**
+ * Renderiza o template
+ * Variáveis desconhecidas permanecem no texto como estão.
+ */
+export const renderTemplate = (
+  template: string,
+  context: TemplateContext
+): string => {
+  return analyzeTemplate(template, context).text;
+};
+
+/**
+ * Renderiza o template informando placeholders não resolvidos
+ * (variáveis e condições desconhecidas), variáveis usadas sem valor
+ * e blocos {#se} sem fechamento
+ */
+export const analyzeTemplate = (
+  template: string,
+  context: TemplateContext
+): TemplateAnalysis => {
+  const unresolved = new Set<string>();
+  const emptyVariables = new Set<string>();
+  const withConditionals = resolveConditionals(template, context, unresolved);
+
+  const text = withConditionals.replace(
+    VARIABLE_REGEX,
+    (match, name: string) => {
+      const value = context.variables[name.toLowerCase()];
+
+      if (value === undefined) {
+        unresolved.add(match);
+        return match;
+      }
+
+      if (value.trim() === "") emptyVariables.add(name.toLowerCase());
+      return value;
+    }
+  );
+
+  return {
+    text,
+    unresolved: [...unresolved],
+    emptyVariables: [...emptyVariables],
+    unbalancedConditionals: /\{#se\b|\{\/se\}/i.test(text),
+  };
+};
@@ -0,0 +1,53 @@
+// src/utils/tokenBucket.test.ts
+
+import { TokenBucket } from "./tokenBucket";
+
+describe("TokenBucket", () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = Date.UTC(2024, 0, 1, 12, 0, 0);
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("libera a rajada e depois bloqueia", () => {
+    const bucket = new TokenBucket(3, 20);
+
+    expect(bucket.tryTake()).toBe(true);
+    expect(bucket.tryTake()).toBe(true);
+    expect(bucket.tryTake()).toBe(true);
+    expect(bucket.tryTake()).toBe(false);
+    expect(bucket.msUntilNextToken()).toBe(3000);
+  });
+
+  it("repõe tokens conforme o tempo sem passar da capacidade", () => {
+    const bucket = new TokenBucket(2, 60);
+    bucket.tryTake();
+    bucket.tryTake();
+
+    now += 1000;
+    expect(bucket.tryTake()).toBe(true);
+    expect(bucket.tryTake()).toBe(false);
+
+    now += 60000;
+    expect(bucket.tryTake()).toBe(true);
+    expect(bucket.tryTake()).toBe(true);
+    expect(bucket.tryTake()).toBe(false);
+  });
+
+  it("configure reduz a capacidade mantendo os tokens disponíveis", () => {
+    const bucket = new TokenBucket(5, 60);
+    bucket.tryTake();
+
+    bucket.configure(2, 30);
+
+    expect(bucket.tryTake()).toBe(true);
+    expect(bucket.tryTake()).toBe(true);
+    expect(bucket.tryTake()).toBe(false);
+    expect(bucket.msUntilNextToken()).toBe(2000);
+  });
+});
@@ -0,0 +1,65 @@
+// src/utils/tokenBucket.ts
+// Token bucket simples para limitar envios por minuto
+
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+
+  /**
+   * @param capacity Máximo de tokens acumulados (rajada)
+   * @param refillPerMinute Tokens repostos por minuto
+   */
+  constructor(private capacity: number, private refillPerMinute: number) {
+    this.tokens = capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Atualiza a taxa sem perder os tokens já acumulados
+   */
+  configure(capacity: number, refillPerMinute: number): void {
+    this.refill();
+    this.capacity = capacity;
+    this.refillPerMinute = refillPerMinute;
+    this.tokens = Math.min(this.tokens, capacity);
+  }
+
+  /**
+   * Consome um token se houver
+   */
+  tryTake(): boolean {
+    this.refill();
+
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Milissegundos até o próximo token ficar disponível
+   */
+  msUntilNextToken(): number {
+    this.refill();
+
+    if (this.tokens >= 1) return 0;
+
+    const msPerToken = 60000 / this.refillPerMinute;
+    return Math.ceil((1 - this.tokens) * msPerToken);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = now - this.lastRefill;
+
+    if (elapsed > 0) {
+      this.tokens = Math.min(
+        this.capacity,
+        this.tokens + (elapsed * this.refillPerMinute) / 60000
+      );
+      this.lastRefill = now;
+    }
+  }
+}